@@ -0,0 +1,19 @@
+/**
+ * The comment at the top of every generated file
+ */
+export function generateBanner(): string {
+	return `/**
+ * ⚠️ AUTO-GENERATED FILE ⚠️
+ * This file is automatically generated. Do not modify it manually.
+ * Any changes made to this file will be overwritten when regenerating.
+ *
+ * Generated by: @necmttn/surql
+ * Date: ${new Date().toISOString()}
+ */`;
+}
+
+/**
+ * The `Date:` line of the banner, which `--check` ignores and the `hash`
+ * header replaces
+ */
+export const TIMESTAMP_LINE = /^ \* Date: .*$/m;
@@ -8,15 +8,25 @@ import chalk from "chalk";
 import {
 	loadConfig,
 	getOutputPath,
-	generateImports,
 	CONFIG_FILENAME_JSON,
 	CONFIG_FILENAME_TS,
 	type DbConfig,
 } from "./config.ts";
-import { parseSurQL, validateReferences } from "./schema.ts";
-import { generateEffectSchemas } from "./effect-schema-class.ts";
+import { parseSurQLSources, validateReferences } from "./schema.ts";
+import { resolveInputFiles } from "./input.ts";
 import {
-	fetchSchemaFromDB,
+	type GeneratedFile,
+	isUpToDate,
+	runGenerators,
+	schemaSystemName,
+} from "./generator.ts";
+import {
+	type Diagnostic,
+	formatDiagnostic,
+	hasFailures,
+} from "./diagnostics.ts";
+import {
+	fetchSchemaModelFromDB,
 	checkDBConnection,
 	exportSchemaFromDB,
 	applySchemaToDatabase,
@@ -26,73 +36,93 @@ import {
 import { loadConfigFromFile } from "./config.ts";
 
 /**
- * Process a SurrealQL file and generate schemas
+ * Process SurrealQL files and generate schemas
  *
- * @param inputFile - Path to the input SurrealQL file
+ * @param input - Input file, directory or glob, or a list of them; defaults to the `input` of the configuration
  * @param outputFile - Path to the output TypeScript file
  * @param configPath - Optional path to the configuration file
- * @param options - Additional options for the process
+ * @param options - Additional options for the process; `strict` fails on warnings,
+ * `check` fails if the output on disk is out of date instead of writing it
  */
 export async function processFile(
-	inputFile: string,
+	input?: string | string[],
 	outputFile?: string,
 	configPath?: string,
-	options: { noExit?: boolean; isTest?: boolean } = {},
+	options: { noExit?: boolean; isTest?: boolean; strict?: boolean; check?: boolean } = {},
 ): Promise<void> {
 	// Load configuration
 	const config = await loadConfig(configPath);
 
 	try {
+		const inputs = [input ?? config.input ?? []].flat();
+		if (inputs.length === 0) {
+			throw new Error(
+				"An input file is required either via --input or the input option in configuration",
+			);
+		}
+
+		const files = await resolveInputFiles(inputs);
+
 		const loadingSpinner = options.isTest ? null : spinner();
 		if (loadingSpinner) {
-			loadingSpinner.start(`Processing file ${chalk.cyan(inputFile)}`);
+			loadingSpinner.start(`Processing ${chalk.cyan(inputs.join(", "))}`);
 		}
 
-		// Read input file
-		const content = await Deno.readTextFile(inputFile);
+		// Read the input files
+		const sources = await Promise.all(
+			files.map(async (path) => ({ path, content: await Deno.readTextFile(path) })),
+		);
 
-		// Parse SurrealQL to get table definitions
-		let tables = parseSurQL(content);
+		// Parse SurrealQL to get table and function definitions
+		const document = parseSurQLSources(sources);
+		let tables = document.tables;
+		const diagnostics = document.diagnostics.filter(
+			(diagnostic) => diagnostic.severity !== "info",
+		);
+		if (hasFailures(diagnostics, options.strict)) {
+			loadingSpinner?.stop(chalk.red(`Failed to process ${inputs.join(", ")}`));
+			printDiagnostics(diagnostics);
+			throw new Error(summarizeDiagnostics(diagnostics));
+		}
 		if (loadingSpinner) {
 			loadingSpinner.message(
-				`Parsed ${chalk.green(tables.length)} tables from SurrealQL`,
+				`Parsed ${chalk.green(tables.length)} tables from ${chalk.green(files.length)} SurrealQL files`,
 			);
 		}
 
 		// Validate and fix references to non-existent tables
 		tables = validateReferences(tables);
 
-		// Generate schemas with proper recursive type handling and imports
-		const imports = generateImports(config);
-
 		// Choose schema generator based on configuration
 		if (loadingSpinner) {
-			loadingSpinner.message("Generating Effect Schema...");
+			loadingSpinner.message(`Generating ${schemaSystemName(config)} schemas...`);
 		}
-		const schemaOutput = generateEffectSchemas(tables);
-
-		// Combine custom imports with schema output
-		const importPlaceholder =
-			'import { Schema } from "@effect/schema";\nimport { pipe } from "effect/Function";\nimport type { RecordId } from "surrealdb";';
-
-		const output = schemaOutput.replace(importPlaceholder, imports);
-
-		// Determine output path
 		const targetFile = outputFile || getOutputPath(config);
-		if (loadingSpinner) {
-			loadingSpinner.message(`Writing output to ${chalk.cyan(targetFile)}`);
-		}
-
-		// Ensure output directory exists
-		await ensureDir(dirname(targetFile));
+		const outputFiles = await runGenerators(
+			config,
+			{ tables, functions: document.functions },
+			targetFile,
+		);
 
-		// Write output file
-		await Deno.writeTextFile(targetFile, output);
-		if (loadingSpinner) {
-			loadingSpinner.stop(
-				`Generated schemas written to ${chalk.green(targetFile)}`,
-			);
-		}
+		if (options.check) {
+			const stale = await findStaleFiles(outputFiles);
+			if (stale.length > 0) {
+				loadingSpinner?.stop(chalk.red(`${describeOutput(outputFiles)} is out of date`));
+				throw new Error(describeStaleFiles(stale));
+			}
+			loadingSpinner?.stop(`${chalk.green(describeOutput(outputFiles))} is up to date`);
+		} else {
+			if (loadingSpinner) {
+				loadingSpinner.message(`Writing output to ${chalk.cyan(describeOutput(outputFiles))}`);
+			}
+			await writeOutputFiles(outputFiles);
+			if (loadingSpinner) {
+				loadingSpinner.stop(
+					`Generated schemas written to ${chalk.green(describeOutput(outputFiles))}`,
+				);
+			}
+		}
+		printDiagnostics(diagnostics);
 
 		// Only exit if not in test mode
 		if (!options.noExit) {
@@ -109,17 +139,88 @@ export async function processFile(
 	}
 }
 
+/**
+ * Print diagnostics in compiler style, one per line
+ */
+function printDiagnostics(diagnostics: Diagnostic[]): void {
+	for (const diagnostic of diagnostics) {
+		const line = formatDiagnostic(diagnostic);
+		console.error(
+			diagnostic.severity === "error" ? chalk.red(line) : chalk.yellow(line),
+		);
+	}
+}
+
+/**
+ * Summarize diagnostics as e.g. "Found 2 errors and 1 warning"
+ */
+function summarizeDiagnostics(diagnostics: Diagnostic[]): string {
+	const count = (severity: Diagnostic["severity"], noun: string) => {
+		const total = diagnostics.filter((d) => d.severity === severity).length;
+		return `${total} ${noun}${total === 1 ? "" : "s"}`;
+	};
+	return `Found ${count("error", "error")} and ${count("warning", "warning")}`;
+}
+
+/**
+ * Write generated files, creating their directories as needed
+ */
+async function writeOutputFiles(files: GeneratedFile[]): Promise<void> {
+	for (const file of files) {
+		await ensureDir(dirname(file.path));
+		await Deno.writeTextFile(file.path, file.content);
+	}
+}
+
+/**
+ * Find the generated files whose content on disk differs from, or is
+ * missing for, the newly generated output
+ */
+async function findStaleFiles(files: GeneratedFile[]): Promise<string[]> {
+	const stale: string[] = [];
+	for (const file of files) {
+		const existing = await exists(file.path)
+			? await Deno.readTextFile(file.path)
+			: undefined;
+		if (existing === undefined || !isUpToDate(existing, file.content)) {
+			stale.push(file.path);
+		}
+	}
+	return stale;
+}
+
+/**
+ * Describe stale files for the error of `--check`
+ */
+function describeStaleFiles(stale: string[]): string {
+	return `Generated output is out of date, run the command without --check to update:\n${
+		stale.map((path) => `  ${path}`).join("\n")
+	}`;
+}
+
+/**
+ * Describe where output goes: the file, or the number of files and their
+ * directory
+ */
+function describeOutput(files: GeneratedFile[]): string {
+	if (files.length === 1) return files[0].path;
+	return `${files.length} files in ${dirname(files[0]?.path ?? ".")}`;
+}
+
 /**
  * Generate schemas from SurrealDB instance
  *
  * @param dbOptions - Database connection options from command line
  * @param outputFile - Path to the output TypeScript file
  * @param configPath - Optional path to the configuration file
+ * @param options - `check` fails if the output on disk is out of date instead
+ * of writing it
  */
 export async function processDB(
 	dbOptions?: Partial<DbConfig>,
 	outputFile?: string,
 	configPath?: string,
+	options: { check?: boolean } = {},
 ): Promise<void> {
 	// Load configuration
 	const config = await loadConfig(configPath);
@@ -173,7 +274,7 @@ export async function processDB(
 
 		// Fetch schema from database
 		dbSpinner.message("Fetching schema from database...");
-		const tables = await fetchSchemaFromDB(config);
+		const { tables, functions } = await fetchSchemaModelFromDB(config);
 
 		if (tables.length === 0) {
 			dbSpinner.stop(chalk.yellow("No tables found in database schema"));
@@ -183,32 +284,25 @@ export async function processDB(
 
 		dbSpinner.message(`Found ${chalk.green(tables.length)} tables in database`);
 
-		// Generate schemas with proper recursive type handling and imports
-		const imports = generateImports(config);
-
-		// return;
 		// Choose schema generator based on configuration
-		dbSpinner.message("Generating Effect Schema...");
-		const schemaOutput = generateEffectSchemas(tables);
-
-		// Combine custom imports with schema output
-		const importPlaceholder =
-			'import { Schema } from "@effect/schema";\nimport { pipe } from "effect/Function";\nimport type { RecordId } from "surrealdb";';
-
-		const output = schemaOutput.replace(importPlaceholder, imports);
-
-		// Determine output path
+		dbSpinner.message(`Generating ${schemaSystemName(config)} schemas...`);
 		const targetFile = outputFile || getOutputPath(config);
-		dbSpinner.message(`Writing output to ${chalk.cyan(targetFile)}`);
-
-		// Ensure output directory exists
-		await ensureDir(dirname(targetFile));
-
-		// Write output file
-		await Deno.writeTextFile(targetFile, output);
-		dbSpinner.stop(
-			`Generated schemas from database written to ${chalk.green(targetFile)}`,
-		);
+		const outputFiles = await runGenerators(config, { tables, functions }, targetFile);
+
+		if (options.check) {
+			const stale = await findStaleFiles(outputFiles);
+			if (stale.length > 0) {
+				dbSpinner.stop(chalk.red(`${describeOutput(outputFiles)} is out of date`));
+				throw new Error(describeStaleFiles(stale));
+			}
+			dbSpinner.stop(`${chalk.green(describeOutput(outputFiles))} is up to date`);
+		} else {
+			dbSpinner.message(`Writing output to ${chalk.cyan(describeOutput(outputFiles))}`);
+			await writeOutputFiles(outputFiles);
+			dbSpinner.stop(
+				`Generated schemas from database written to ${chalk.green(describeOutput(outputFiles))}`,
+			);
+		}
 
 		// Explicitly exit with success code
 		await closeResourcesAndExit(0);
@@ -594,15 +688,23 @@ export async function handleCommand(args: string[]): Promise<void> {
 
 	program
 		.command("process")
-		.description("Process a SurrealQL file and generate TypeBox schemas")
-		.requiredOption("-i, --input <file>", "Input SurrealQL file to process")
+		.description("Process SurrealQL files and generate TypeBox schemas")
+		.option(
+			"-i, --input <files...>",
+			"Input SurrealQL files, directories or globs (default: based on config)",
+		)
 		.option(
 			"-o, --output <file>",
 			"Output TypeScript file (default: based on config)",
 		)
 		.option("-c, --config <file>", "Path to config file")
+		.option("--strict", "Treat warnings as errors", false)
+		.option("--check", "Fail if the output is out of date instead of writing it", false)
 		.action(async (options) => {
-			await processFile(options.input, options.output, options.config);
+			await processFile(options.input, options.output, options.config, {
+				strict: options.strict,
+				check: options.check,
+			});
 		});
 
 	program
@@ -627,6 +729,7 @@ export async function handleCommand(args: string[]): Promise<void> {
 			"Output TypeScript file (default: based on config)",
 		)
 		.option("-c, --config <file>", "Path to config file")
+		.option("--check", "Fail if the output is out of date instead of writing it", false)
 		.action(async (options) => {
 			const dbOptions: Partial<DbConfig> = {
 				url: options.dbUrl,
@@ -635,7 +738,9 @@ export async function handleCommand(args: string[]): Promise<void> {
 				namespace: options.namespace,
 				database: options.database,
 			};
-			await processDB(dbOptions, options.output, options.config);
+			await processDB(dbOptions, options.output, options.config, {
+				check: options.check,
+			});
 		});
 
 	program
@@ -1,6 +1,7 @@
 import { Type, type Static } from "@sinclair/typebox";
 import { exists } from "@std/fs";
 import { join } from "@std/path";
+import type { Generator } from "./generator.ts";
 
 /**
  * Database connection configuration schema
@@ -26,9 +27,24 @@ export const OutputConfigSchema = Type.Object(
 		path: Type.String({ default: "./generated" }),
 		filename: Type.String({ default: "schema" }),
 		extension: Type.Union(
-			[Type.Literal("ts"), Type.Literal("js"), Type.Literal("d.ts")],
+			[Type.Literal("ts"), Type.Literal("js"), Type.Literal("d.ts"), Type.Literal("json")],
 			{ default: "ts" },
 		),
+		/**
+		 * Write one file per table next to the output file, for Effect (with
+		 * the output file as an index) and JSON Schema
+		 */
+		perTable: Type.Optional(Type.Boolean()),
+		/**
+		 * What the header of generated files records: the generation time, or
+		 * a hash of the content so that regenerating an unchanged schema gives
+		 * an identical file
+		 */
+		header: Type.Optional(
+			Type.Union([Type.Literal("timestamp"), Type.Literal("hash")], {
+				default: "timestamp",
+			}),
+		),
 	},
 	{
 		additionalProperties: false,
@@ -38,9 +54,15 @@ export const OutputConfigSchema = Type.Object(
 /**
  * Schema system options
  */
-export const SchemaSystemSchema = Type.Union([Type.Literal("effect")], {
-	default: "effect",
-});
+export const SchemaSystemSchema = Type.Union(
+	[
+		Type.Literal("effect"),
+		Type.Literal("zod"),
+		Type.Literal("typebox"),
+		Type.Literal("json-schema"),
+	],
+	{ default: "effect" },
+);
 
 /**
  * Imports configuration schema
@@ -67,14 +89,73 @@ export const ImportsConfigSchema = Type.Object(
 	},
 );
 
+/**
+ * Naming strategy for generated Effect classes and properties; the other
+ * formats keep the table and field names
+ */
+export const NamingConfigSchema = Type.Object(
+	{
+		/** `capitalize` upper-cases the first letter, `pascal` also drops underscores */
+		classes: Type.Optional(
+			Type.Union([Type.Literal("capitalize"), Type.Literal("pascal")], {
+				default: "capitalize",
+			}),
+		),
+		/** `camel` renames snake_case fields, mapped back to the database keys */
+		fields: Type.Optional(
+			Type.Union([Type.Literal("preserve"), Type.Literal("camel")], {
+				default: "preserve",
+			}),
+		),
+	},
+	{
+		additionalProperties: false,
+	},
+);
+
+/**
+ * A custom Effect Schema expression for matching fields, used instead of the
+ * one generated from the field's type
+ */
+export const SchemaOverrideSchema = Type.Object(
+	{
+		/** `table.field` pattern, where `*` matches one name, e.g. `*.email` */
+		field: Type.Optional(Type.String()),
+		/** SurrealDB type of the field, e.g. `decimal` or `record<user>` */
+		type: Type.Optional(Type.String()),
+		/** Schema expression, e.g. `Schema.parseJson(Permissions)` */
+		schema: Type.String(),
+		/** Import statement the expression needs */
+		import: Type.Optional(Type.String()),
+	},
+	{
+		additionalProperties: false,
+	},
+);
+
+/**
+ * Additional output backends, only available in surql-gen.config.ts
+ */
+export const GeneratorsSchema = Type.Array(
+	Type.Unsafe<Generator>(Type.Object({ name: Type.String() })),
+);
+
 /**
  * Schema for surql-gen.json configuration file
  */
 export const ConfigSchema = Type.Object(
 	{
+		/** SurrealQL files, directories or globs to generate from */
+		input: Type.Optional(Type.Union([Type.String(), Type.Array(Type.String())])),
 		output: OutputConfigSchema,
 		imports: ImportsConfigSchema,
 		db: Type.Optional(DbConfigSchema),
+		/** Class and property names (Effect only) */
+		naming: Type.Optional(NamingConfigSchema),
+		/** Field schemas to use instead of the generated ones (Effect only) */
+		overrides: Type.Optional(Type.Array(SchemaOverrideSchema)),
+		/** Generators run after the built-in output, in the same pass */
+		generators: Type.Optional(GeneratorsSchema),
 	},
 	{
 		additionalProperties: false,
@@ -104,6 +185,8 @@ export const DEFAULT_CONFIG = {
  */
 export type DbConfig = Static<typeof DbConfigSchema>;
 export type OutputConfig = Static<typeof OutputConfigSchema>;
+export type NamingConfig = Static<typeof NamingConfigSchema>;
+export type SchemaOverride = Static<typeof SchemaOverrideSchema>;
 export type SchemaSystem = Static<typeof SchemaSystemSchema>;
 export type ImportsConfig = Static<typeof ImportsConfigSchema>;
 export type Config = Static<typeof ConfigSchema>;
@@ -0,0 +1,455 @@
+/**
+ * Translation of SurrealQL ASSERT clauses into backend-neutral constraints
+ *
+ * Only the common assertion shapes are recognised. Everything else is
+ * returned as `unsupported` so that generators can keep the original
+ * expression as an annotation instead of silently dropping it.
+ */
+import { type Token, tokenize } from "./parser/index.ts";
+
+/**
+ * String formats checked by the `string::is::*` functions
+ */
+export type StringFormat =
+	| "email"
+	| "url"
+	| "uuid"
+	| "alpha"
+	| "alphanum"
+	| "ascii"
+	| "numeric"
+	| "hexadecimal"
+	| "domain"
+	| "ipv4"
+	| "semver";
+
+/**
+ * Regular expressions (source text) that implement each string format
+ */
+export const FORMAT_PATTERNS: Record<StringFormat, string> = {
+	email: "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$",
+	url: "^[A-Za-z][A-Za-z0-9+.-]*:\\/\\/[^\\s]+$",
+	uuid: "^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$",
+	alpha: "^[A-Za-z]+$",
+	alphanum: "^[A-Za-z0-9]+$",
+	ascii: "^[\\x00-\\x7F]*$",
+	numeric: "^[0-9]+$",
+	hexadecimal: "^[0-9a-fA-F]+$",
+	domain: "^(?:[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?\\.)+[A-Za-z]{2,}$",
+	ipv4: "^(?:(?:25[0-5]|2[0-4][0-9]|1?[0-9]?[0-9])\\.){3}(?:25[0-5]|2[0-4][0-9]|1?[0-9]?[0-9])$",
+	semver: "^(0|[1-9][0-9]*)\\.(0|[1-9][0-9]*)\\.(0|[1-9][0-9]*)(?:-[0-9A-Za-z.-]+)?(?:\\+[0-9A-Za-z.-]+)?$",
+};
+
+export type ComparisonOperator = ">" | ">=" | "<" | "<=";
+
+export type LiteralValue = string | number | boolean;
+
+/**
+ * A single check that a field value must pass
+ */
+export type Constraint =
+	| { kind: "format"; format: StringFormat }
+	| { kind: "pattern"; source: string; flags: string }
+	/** `$value > 0` */
+	| { kind: "compare"; operator: ComparisonOperator; value: number }
+	/** `string::len($value) <= 280` or `array::len($value) > 0` */
+	| {
+		kind: "length";
+		of: "string" | "array";
+		operator: ComparisonOperator | "=";
+		value: number;
+	}
+	/** `$value = 'x'` */
+	| { kind: "equals"; value: LiteralValue }
+	/** `$value != ''` */
+	| { kind: "notEquals"; value: LiteralValue }
+	/** `$value INSIDE ['a', 'b']` */
+	| { kind: "oneOf"; values: LiteralValue[] }
+	/** `$value != NONE`, enforced by the field being required */
+	| { kind: "required" };
+
+export interface AssertTranslation {
+	constraints: Constraint[];
+	/** Parts of the expression that could not be translated */
+	unsupported: string[];
+}
+
+/**
+ * Translate an ASSERT expression into constraints
+ *
+ * The expression is split on top-level AND; each part is translated on its
+ * own. A top-level OR is only understood in the `$value = NONE OR ...` form
+ * used by optional fields.
+ *
+ * @param expression - The ASSERT expression, e.g. `string::len($value) > 3`
+ * @returns The translated constraints and any untranslated parts
+ */
+export function translateAssert(expression: string): AssertTranslation {
+	const { tokens, errors } = tokenize(expression);
+	const result: AssertTranslation = { constraints: [], unsupported: [] };
+	if (errors.length > 0) {
+		result.unsupported.push(expression.trim());
+		return result;
+	}
+
+	const body = unwrapParens(tokens.filter((token) => token.kind !== "eof"));
+	const disjuncts = splitOn(body, "OR")
+		.map(unwrapParens)
+		.filter((part) => !isNoneCheck(part));
+	if (disjuncts.length !== 1) {
+		result.unsupported.push(expression.trim());
+		return result;
+	}
+
+	for (const part of splitOn(disjuncts[0], "AND").map(unwrapParens)) {
+		const constraint = translatePart(part);
+		if (constraint) {
+			result.constraints.push(constraint);
+		} else {
+			result.unsupported.push(textOf(expression, part));
+		}
+	}
+
+	return result;
+}
+
+/**
+ * JSON Schema keywords that express a constraint, e.g. `{ minLength: 4 }`
+ * for `string::len($value) > 3`
+ *
+ * @param constraint - The constraint to express
+ * @param base - The JSON Schema type of the value the constraint applies to
+ * @returns The keywords, or undefined when the constraint does not fit the
+ * base type or has no JSON Schema equivalent
+ */
+export function jsonSchemaKeywords(
+	constraint: Constraint,
+	base: string,
+): Record<string, unknown> | undefined {
+	switch (constraint.kind) {
+		case "format":
+			return base === "string"
+				? { pattern: FORMAT_PATTERNS[constraint.format] }
+				: undefined;
+		case "pattern":
+			// JSON Schema patterns have no flags
+			return base === "string" && constraint.flags === ""
+				? { pattern: constraint.source }
+				: undefined;
+		case "compare": {
+			if (base !== "number" && base !== "integer") return undefined;
+			const keyword = {
+				">": "exclusiveMinimum",
+				">=": "minimum",
+				"<": "exclusiveMaximum",
+				"<=": "maximum",
+			}[constraint.operator];
+			return { [keyword]: constraint.value };
+		}
+		case "length": {
+			if (base !== constraint.of) return undefined;
+			const [min, max] = constraint.of === "string"
+				? ["minLength", "maxLength"]
+				: ["minItems", "maxItems"];
+			switch (constraint.operator) {
+				case ">":
+					return { [min]: constraint.value + 1 };
+				case ">=":
+					return { [min]: constraint.value };
+				case "<":
+					return { [max]: constraint.value - 1 };
+				case "<=":
+					return { [max]: constraint.value };
+				case "=":
+					return { [min]: constraint.value, [max]: constraint.value };
+			}
+			return undefined;
+		}
+		case "equals":
+			return { const: constraint.value };
+		case "notEquals":
+			return { not: { const: constraint.value } };
+		case "oneOf":
+			return { enum: constraint.values };
+		case "required":
+			return undefined;
+	}
+}
+
+/**
+ * Translate a single comparison or function call
+ */
+function translatePart(tokens: Token[]): Constraint | undefined {
+	// string::is::email($value) and string::matches($value, /regex/)
+	const call = parseCall(tokens);
+	if (call && call.args.length > 0 && isValue(call.args[0])) {
+		const format = call.name.match(/^string::is::([a-z]+)$/)?.[1];
+		if (format && call.args.length === 1 && format in FORMAT_PATTERNS) {
+			return { kind: "format", format: format as StringFormat };
+		}
+		const [, regex] = call.args;
+		if (
+			call.name === "string::matches" &&
+			call.args.length === 2 &&
+			regex.length === 1 &&
+			regex[0].kind === "regex"
+		) {
+			return regexConstraint(regex[0]);
+		}
+	}
+
+	const operatorIndex = tokens.findIndex(
+		(token) =>
+			(token.kind === "punct" &&
+				["=", "==", "!=", ">", ">=", "<", "<="].includes(token.text)) ||
+			(token.kind === "ident" &&
+				["INSIDE", "IN", "CONTAINS", "IS"].includes(token.value.toUpperCase())),
+	);
+	if (operatorIndex <= 0) return undefined;
+
+	let left = tokens.slice(0, operatorIndex);
+	let right = tokens.slice(operatorIndex + 1);
+	let operator = tokens[operatorIndex].text.toUpperCase();
+
+	// IS NOT NONE
+	if (operator === "IS" && right[0]?.value.toUpperCase() === "NOT") {
+		operator = "!=";
+		right = right.slice(1);
+	} else if (operator === "IS") {
+		operator = "=";
+	}
+
+	// Put $value on the left: `0 < $value` becomes `$value > 0`
+	if (!isValueSubject(left) && isValueSubject(right)) {
+		[left, right] = [right, left];
+		operator = flip(operator);
+	}
+
+	if (operator === "CONTAINS") return undefined;
+
+	const subject = isValue(left) ? "value" : lengthSubject(left);
+	if (!subject) return undefined;
+
+	if (operator === "INSIDE" || operator === "IN") {
+		const values = literalList(right);
+		return subject === "value" && values ? { kind: "oneOf", values } : undefined;
+	}
+
+	if (right.length === 1 && right[0].kind === "regex" && subject === "value") {
+		return operator === "=" || operator === "==" ? regexConstraint(right[0]) : undefined;
+	}
+
+	if (
+		right.length === 1 &&
+		right[0].kind === "ident" &&
+		/^(NONE|NULL)$/i.test(right[0].value)
+	) {
+		return subject === "value" && operator === "!=" ? { kind: "required" } : undefined;
+	}
+
+	const value = literalValue(right);
+	if (value === undefined) return undefined;
+
+	if (subject !== "value") {
+		if (typeof value !== "number") return undefined;
+		if (operator === "!=") return undefined;
+		return {
+			kind: "length",
+			of: subject,
+			operator: operator === "==" ? "=" : operator as ComparisonOperator | "=",
+			value,
+		};
+	}
+
+	switch (operator) {
+		case "=":
+		case "==":
+			return { kind: "equals", value };
+		case "!=":
+			return { kind: "notEquals", value };
+		default:
+			return typeof value === "number"
+				? { kind: "compare", operator: operator as ComparisonOperator, value }
+				: undefined;
+	}
+}
+
+function regexConstraint(token: Token): Constraint {
+	const end = token.text.lastIndexOf("/");
+	return {
+		kind: "pattern",
+		source: token.text.slice(1, end),
+		flags: token.text.slice(end + 1),
+	};
+}
+
+function flip(operator: string): string {
+	switch (operator) {
+		case ">":
+			return "<";
+		case ">=":
+			return "<=";
+		case "<":
+			return ">";
+		case "<=":
+			return ">=";
+		case "CONTAINS":
+			return "INSIDE";
+		case "INSIDE":
+		case "IN":
+			return "CONTAINS";
+		default:
+			return operator;
+	}
+}
+
+function isValue(tokens: Token[]): boolean {
+	return tokens.length === 1 && tokens[0].kind === "param" &&
+		tokens[0].value === "value";
+}
+
+function isValueSubject(tokens: Token[]): boolean {
+	return isValue(tokens) || lengthSubject(tokens) !== undefined;
+}
+
+/**
+ * Recognise `string::len($value)` and `array::len($value)`
+ */
+function lengthSubject(tokens: Token[]): "string" | "array" | undefined {
+	const call = parseCall(tokens);
+	if (!call || call.args.length !== 1 || !isValue(call.args[0])) {
+		return undefined;
+	}
+	if (call.name === "string::len") return "string";
+	if (call.name === "array::len" || call.name === "count") return "array";
+	return undefined;
+}
+
+/**
+ * Match a whole function call such as `string::len($value)`, which the lexer
+ * produces as identifiers joined by `::` followed by a parenthesised list
+ */
+function parseCall(
+	tokens: Token[],
+): { name: string; args: Token[][] } | undefined {
+	const open = tokens.findIndex((token) => token.text === "(");
+	if (open <= 0 || closingParen(tokens.slice(open)) !== tokens.length - open - 1) {
+		return undefined;
+	}
+	const name = tokens.slice(0, open).map((token) => token.text).join("");
+	if (!/^[A-Za-z_][A-Za-z0-9_]*(::[A-Za-z_][A-Za-z0-9_]*)*$/.test(name)) {
+		return undefined;
+	}
+	return {
+		name: name.toLowerCase(),
+		args: splitOnPunct(tokens.slice(open + 1, -1), ","),
+	};
+}
+
+function literalValue(tokens: Token[]): LiteralValue | undefined {
+	let sign = 1;
+	if (tokens.length === 2 && tokens[0].text === "-") {
+		sign = -1;
+		tokens = tokens.slice(1);
+	}
+	if (tokens.length !== 1) return undefined;
+
+	const [token] = tokens;
+	if (token.kind === "number") {
+		return sign * Number(token.text.replace(/_|dec$|f$/g, ""));
+	}
+	if (sign === -1) return undefined;
+	if (token.kind === "string") return token.value;
+	if (token.kind === "ident" && /^(true|false)$/i.test(token.value)) {
+		return token.value.toLowerCase() === "true";
+	}
+	return undefined;
+}
+
+function literalList(tokens: Token[]): LiteralValue[] | undefined {
+	if (tokens[0]?.text !== "[" || tokens[tokens.length - 1]?.text !== "]") {
+		return undefined;
+	}
+	const values: LiteralValue[] = [];
+	for (const item of splitOnPunct(tokens.slice(1, -1), ",")) {
+		const value = literalValue(item);
+		if (value === undefined) return undefined;
+		values.push(value);
+	}
+	return values;
+}
+
+/**
+ * Whether the tokens are `$value = NONE`, `$value == NULL` or `$value IS NONE`
+ */
+function isNoneCheck(tokens: Token[]): boolean {
+	return tokens.length === 3 && isValue(tokens.slice(0, 1)) &&
+		["=", "==", "IS"].includes(tokens[1].text.toUpperCase()) &&
+		/^(NONE|NULL)$/i.test(tokens[2].value);
+}
+
+function unwrapParens(tokens: Token[]): Token[] {
+	while (
+		tokens.length >= 2 &&
+		tokens[0].text === "(" &&
+		tokens[tokens.length - 1].text === ")" &&
+		closingParen(tokens) === tokens.length - 1
+	) {
+		tokens = tokens.slice(1, -1);
+	}
+	return tokens;
+}
+
+function closingParen(tokens: Token[]): number {
+	let depth = 0;
+	for (let i = 0; i < tokens.length; i++) {
+		if ("([{".includes(tokens[i].text)) depth++;
+		if (")]}".includes(tokens[i].text)) depth--;
+		if (depth === 0) return i;
+	}
+	return -1;
+}
+
+/**
+ * Split on a top-level logical keyword (AND / OR, or && / ||)
+ */
+function splitOn(tokens: Token[], keyword: "AND" | "OR"): Token[][] {
+	const symbol = keyword === "AND" ? "&&" : "||";
+	const parts: Token[][] = [[]];
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.kind === "punct" && "([{".includes(token.text)) depth++;
+		if (token.kind === "punct" && ")]}".includes(token.text)) depth--;
+		const isSeparator = (token.kind === "ident" && token.value.toUpperCase() === keyword) ||
+			(token.kind === "punct" && token.text === symbol);
+		if (depth === 0 && isSeparator) {
+			parts.push([]);
+			continue;
+		}
+		parts[parts.length - 1].push(token);
+	}
+	return parts;
+}
+
+function splitOnPunct(tokens: Token[], separator: string): Token[][] {
+	const parts: Token[][] = [[]];
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.kind === "punct" && "([{".includes(token.text)) depth++;
+		if (token.kind === "punct" && ")]}".includes(token.text)) depth--;
+		if (depth === 0 && token.text === separator) {
+			parts.push([]);
+			continue;
+		}
+		parts[parts.length - 1].push(token);
+	}
+	return parts.filter((part) => part.length > 0);
+}
+
+function textOf(source: string, tokens: Token[]): string {
+	if (tokens.length === 0) return "";
+	return source.slice(
+		tokens[0].span.start.offset,
+		tokens[tokens.length - 1].span.end.offset,
+	);
+}
@@ -1,11 +1,23 @@
 // This module will handle connecting to SurrealDB and fetching schema
 
 import type { Config } from "./config.ts";
-import type { FieldDefinition, TableDefinition } from "./schema.ts";
+import type { SchemaModel } from "./generator.ts";
+import {
+	type FieldDefinition,
+	mergeElementFields,
+	resolveFieldType,
+	type TableDefinition,
+} from "./schema.ts";
+import {
+	parseFieldInfo,
+	parseFunctionDefinitions,
+	parseIndexDefinitions,
+	parseTableDefinition,
+} from "./db/parser.ts";
 // Direct import from surrealdb instead of dynamic import
 import { Surreal } from "surrealdb";
 
-import { log, spinner } from "@clack/prompts";
+import { spinner } from "@clack/prompts";
 /**
  * Schema information retrieved from SurrealDB info endpoints
  */
@@ -47,180 +59,6 @@ interface SurrealTableSchemaInfo {
 	accesses?: Record<string, string>;
 }
 
-/**
- * Parse a field definition string from SurrealDB
- */
-function parseFieldDefinition(fieldDef: string): {
-	type: string;
-	kind: string;
-	optional: boolean;
-	referencedTable?: string;
-	description?: string;
-	defaultValue?: string;
-} {
-	// Extract the actual type from the field definition
-	const typeMatch = fieldDef.match(/TYPE\s+(\S+)/i);
-	if (!typeMatch) {
-		log.warning(`No type found in field definition: ${fieldDef}`);
-		return {
-			type: "string",
-			kind: "scalar",
-			optional: false,
-		};
-	}
-
-	const fieldType = typeMatch[1]; // This is the actual type like 'references<telegram_message>'
-
-	// Default values
-	let type = fieldType.toLowerCase();
-	const kind = "scalar";
-	let isOptional = false;
-	let referencedTable: string | undefined;
-	let description: string | undefined;
-	let defaultValue: string | undefined;
-
-	// Extract description from COMMENT clause
-	const commentMatch = fieldDef.match(/COMMENT\s+['"]([^'"]+)['"]/i);
-	if (commentMatch) {
-		description = commentMatch[1];
-	}
-
-	// Extract default value from DEFAULT clause
-	const defaultMatch = fieldDef.match(
-		/DEFAULT\s+([^;]+?)(?:COMMENT|PERMISSIONS|ASSERT|;|$)/i,
-	);
-	if (defaultMatch) {
-		defaultValue = defaultMatch[1].trim();
-	}
-
-	// Check if the type is an option type
-	if (type.startsWith("option<")) {
-		isOptional = true;
-		// Extract the inner type
-		const innerType = type.slice(7, -1);
-
-		// Check for references type in the inner type
-		if (innerType.startsWith("references<")) {
-			const matchRef = innerType.match(/references<([^>]+)>/);
-			referencedTable = matchRef ? matchRef[1] : undefined;
-			return {
-				type: "references",
-				kind: "relation",
-				optional: isOptional,
-				referencedTable,
-				description,
-				defaultValue,
-			};
-		}
-
-		// Check for record type in inner type
-		if (innerType.startsWith("record<")) {
-			const matchRecord = innerType.match(/record<([^>]+)>/);
-			referencedTable = matchRecord ? matchRecord[1] : undefined;
-			return {
-				type: "record",
-				kind: "relation",
-				optional: isOptional,
-				referencedTable,
-				description,
-				defaultValue,
-			};
-		}
-
-		// Use the inner type for further processing
-		type = innerType;
-	}
-
-	// Check for references type directly
-	if (type.startsWith("references<")) {
-		const matchRef = type.match(/references<([^>]+)>/);
-		referencedTable = matchRef ? matchRef[1] : undefined;
-		return {
-			type: "references",
-			kind: "relation",
-			optional: isOptional,
-			referencedTable,
-			description,
-			defaultValue,
-		};
-	}
-
-	// Check for record type directly
-	if (type.startsWith("record<")) {
-		const matchRecord = type.match(/record<([^>]+)>/);
-		referencedTable = matchRecord ? matchRecord[1] : undefined;
-		return {
-			type: "record",
-			kind: "relation",
-			optional: isOptional,
-			referencedTable,
-			description,
-			defaultValue,
-		};
-	}
-
-	// Simplify array types for consistency with mod.ts processing
-	if (type.startsWith("array<")) {
-		// Extract the inner type from array<type>
-		const innerTypeMatch = type.match(/array<(.+?)>?$/);
-		const innerType = innerTypeMatch ? innerTypeMatch[1] : "string";
-
-		// Recursively parse the inner type
-		const innerTypeInfo = parseFieldDefinition(
-			`DEFINE FIELD _ ON _ TYPE ${innerType}`,
-		);
-
-		return {
-			type: `array<${innerTypeInfo.type}>`,
-			kind: "array",
-			optional: isOptional,
-			description,
-			defaultValue,
-			referencedTable: innerTypeInfo.referencedTable,
-		};
-	}
-
-	// Handle basic types
-	if (type === "int" || type === "integer" || type === "number") {
-		return {
-			type: "int",
-			kind: "scalar",
-			optional: isOptional,
-			description,
-			defaultValue,
-		};
-	}
-
-	if (type === "bool" || type === "boolean") {
-		return {
-			type: "bool",
-			kind: "scalar",
-			optional: isOptional,
-			description,
-			defaultValue,
-		};
-	}
-
-	if (type === "datetime") {
-		return {
-			type: "datetime",
-			kind: "scalar",
-			optional: isOptional,
-			description,
-			defaultValue,
-		};
-	}
-
-	return {
-		type,
-		kind,
-		optional: isOptional,
-		referencedTable,
-		description,
-		defaultValue,
-	};
-}
-
 /**
  * Convert a raw DB info response to a normalized schema info format
  */
@@ -280,6 +118,18 @@ export function normalizeSchemaInfo(raw: unknown): SurrealDBSchemaInfo {
 export async function fetchSchemaFromDB(
 	config: Config,
 ): Promise<TableDefinition[]> {
+	return (await fetchSchemaModelFromDB(config)).tables;
+}
+
+/**
+ * Connect to SurrealDB and retrieve its tables and `fn::*` functions
+ *
+ * @param config - Configuration with database connection details
+ * @returns Promise that resolves to the table and function definitions
+ */
+export async function fetchSchemaModelFromDB(
+	config: Config,
+): Promise<SchemaModel> {
 	if (!config.db?.url) {
 		throw new Error("Database URL is required in configuration");
 	}
@@ -347,7 +197,7 @@ export async function fetchSchemaFromDB(
 
 
 		// Safely process tables with defensive programming to handle potential null/undefined values
-		for (const tableName of Object.keys(schemaInfo.tables)) {
+		for (const tableName of Object.keys(schemaInfo.tables).sort()) {
 			const tableSpinner = spinner();
 			// Skip any table definitions that look like system tables
 			if (tableName.startsWith("_") || tableName.startsWith("sdb_")) {
@@ -368,12 +218,7 @@ export async function fetchSchemaFromDB(
 			const fields: FieldDefinition[] = [];
 
 			// Safely process fields
-			for (const fieldName of Object.keys(tableInfo.fields)) {
-				// Skip array item definitions like field[*]
-				if (fieldName.includes("[*]")) {
-					continue;
-				}
-
+			for (const fieldName of Object.keys(tableInfo.fields).sort()) {
 				const fieldInfo = tableInfo.fields[fieldName];
 
 				if (!fieldInfo) {
@@ -387,27 +232,17 @@ export async function fetchSchemaFromDB(
 				if (typeof fieldInfo === "string") {
 					// Parse the string definition
 					tableSpinner.message(`Processing field [${tableName}.${fieldName}]`);
-					const parsed = parseFieldDefinition(fieldInfo);
-					// Use the parsed referencedTable from parseFieldDefinition
-					fields.push({
-						name: fieldName,
-						type: parsed.type,
-						optional: parsed.optional,
-						description: parsed.description,
-						defaultValue: parsed.defaultValue,
-						reference: parsed.referencedTable
-							? {
-								table: parsed.referencedTable,
-								isOption: parsed.optional,
-							}
-							: undefined,
-					});
+					fields.push(parseFieldInfo(fieldName, fieldInfo));
 				} else if (typeof fieldInfo === "object") {
 					// It's already an object with properties
 					const fieldObject = fieldInfo as SurrealFieldInfo;
 					const fieldType = fieldObject.type || "string";
 					const fieldKind = fieldObject.kind;
 					const isOptional = fieldObject.optional === true;
+					const surrealType = resolveFieldType({
+						type: fieldType,
+						optional: isOptional,
+					});
 
 					// Extract description and default value if available
 					let description: string | undefined = undefined;
@@ -452,6 +287,7 @@ export async function fetchSchemaFromDB(
 									isOption: isOptional,
 								}
 								: undefined,
+							surrealType,
 						});
 						continue;
 					}
@@ -482,6 +318,7 @@ export async function fetchSchemaFromDB(
 										fieldType.startsWith("option<"),
 								}
 								: undefined,
+						surrealType,
 					});
 				} else {
 					console.warn(
@@ -492,11 +329,13 @@ export async function fetchSchemaFromDB(
 
 			tables.push({
 				name: tableName,
-				fields,
+				...parseTableDefinition(schemaInfo.tables?.[tableName]),
+				fields: mergeElementFields(tableName, fields),
+				indexes: parseIndexDefinitions(tableInfo.indexes),
 			});
 		}
 
-		return tables;
+		return { tables, functions: parseFunctionDefinitions(schemaInfo.functions) };
 	} catch (error) {
 		console.error("Error fetching schema from SurrealDB:", error);
 		throw error;
@@ -553,7 +392,7 @@ export function parseSchemaFromInfoResponses(
 	}
 
 	// Process each table
-	for (const tableName of Object.keys(schemaInfo.tables)) {
+	for (const tableName of Object.keys(schemaInfo.tables).sort()) {
 		// Skip system tables
 		if (tableName.startsWith("_") || tableName.startsWith("sdb_")) {
 			continue;
@@ -567,12 +406,7 @@ export function parseSchemaFromInfoResponses(
 		const fields = [];
 
 		// Process fields
-		for (const fieldName of Object.keys(tableInfo.fields)) {
-			// Skip array item definitions
-			if (fieldName.includes("[*]")) {
-				continue;
-			}
-
+		for (const fieldName of Object.keys(tableInfo.fields).sort()) {
 			const fieldInfo = tableInfo.fields[fieldName];
 			if (!fieldInfo) {
 				continue;
@@ -581,28 +415,17 @@ export function parseSchemaFromInfoResponses(
 			// Handle both object and string field definitions
 			if (typeof fieldInfo === "string") {
 				// Parse the string definition
-				const parsed = parseFieldDefinition(fieldInfo);
-
-				// Use the parsed referencedTable from parseFieldDefinition
-				fields.push({
-					name: fieldName,
-					type: parsed.type,
-					optional: parsed.optional,
-					description: parsed.description,
-					defaultValue: parsed.defaultValue,
-					reference: parsed.referencedTable
-						? {
-							table: parsed.referencedTable,
-							isOption: parsed.optional,
-						}
-						: undefined,
-				});
+				fields.push(parseFieldInfo(fieldName, fieldInfo));
 			} else if (typeof fieldInfo === "object") {
 				// It's already an object with properties
 				const fieldObject = fieldInfo as SurrealFieldInfo;
 				const fieldType = fieldObject.type || "string";
 				const fieldKind = fieldObject.kind;
 				const isOptional = fieldObject.optional === true;
+				const surrealType = resolveFieldType({
+					type: fieldType,
+					optional: isOptional,
+				});
 
 				// Extract description and default value if available
 				let description: string | undefined = undefined;
@@ -654,6 +477,7 @@ export function parseSchemaFromInfoResponses(
 								isOption: isOptional,
 							}
 							: undefined,
+						surrealType,
 					});
 					continue;
 				}
@@ -684,13 +508,16 @@ export function parseSchemaFromInfoResponses(
 									fieldType.startsWith("option<"),
 							}
 							: undefined,
+					surrealType,
 				});
 			}
 		}
 
 		tables.push({
 			name: tableName,
-			fields,
+			...parseTableDefinition(schemaInfo.tables?.[tableName]),
+			fields: mergeElementFields(tableName, fields),
+			indexes: parseIndexDefinitions(tableInfo.indexes),
 		});
 	}
 
@@ -823,7 +650,7 @@ export async function exportSchemaFromDB(
 			schemaLines.push("-- ------------------------------");
 
 			// Get all table definitions
-			for (const tableName of Object.keys(schemaInfo.tables)) {
+			for (const tableName of Object.keys(schemaInfo.tables).sort()) {
 				// Skip any table definitions that look like system tables
 				if (tableName.startsWith("_") || tableName.startsWith("sdb_")) {
 					continue;
@@ -864,7 +691,7 @@ export async function exportSchemaFromDB(
 
 					// Process fields
 					if (tableInfo.fields && Object.keys(tableInfo.fields).length > 0) {
-						for (const fieldName of Object.keys(tableInfo.fields)) {
+						for (const fieldName of Object.keys(tableInfo.fields).sort()) {
 							const field = tableInfo.fields[fieldName];
 
 							if (typeof field === "string") {
@@ -1,8 +1,17 @@
 import type { Config } from "../config.ts";
-import type { TableDefinition } from "../schema.ts";
+import {
+	mergeElementFields,
+	resolveFieldType,
+	type TableDefinition,
+} from "../schema.ts";
 import type { SurrealFieldInfo, SurrealTableSchemaInfo } from "./interfaces.ts";
 import type { Surreal } from "surrealdb";
-import { normalizeSchemaInfo, parseFieldDefinition } from "./parser.ts";
+import {
+	normalizeSchemaInfo,
+	parseFieldInfo,
+	parseIndexDefinitions,
+	parseTableDefinition,
+} from "./parser.ts";
 import { createDBConnection } from "./connection.ts";
 
 /**
@@ -48,7 +57,7 @@ export async function fetchSchemaFromDB(
 		const tables: TableDefinition[] = [];
 
 		// Safely process tables with defensive programming to handle potential null/undefined values
-		for (const tableName of Object.keys(schemaInfo.tables)) {
+		for (const tableName of Object.keys(schemaInfo.tables).sort()) {
 			// Skip any table definitions that look like system tables
 			if (tableName.startsWith("_") || tableName.startsWith("sdb_")) {
 				continue;
@@ -67,12 +76,7 @@ export async function fetchSchemaFromDB(
 			const fields = [];
 
 			// Safely process fields
-			for (const fieldName of Object.keys(tableInfo.fields)) {
-				// Skip array item definitions like field[*]
-				if (fieldName.includes("[*]")) {
-					continue;
-				}
-
+			for (const fieldName of Object.keys(tableInfo.fields).sort()) {
 				const fieldInfo = tableInfo.fields[fieldName];
 
 				if (!fieldInfo) {
@@ -85,29 +89,22 @@ export async function fetchSchemaFromDB(
 				// Handle both object and string field definitions
 				if (typeof fieldInfo === "string") {
 					// Parse the string definition
-					const parsed = parseFieldDefinition(fieldInfo);
+					const field = parseFieldInfo(fieldName, fieldInfo);
 					console.log(
-						`Parsed field ${fieldName}: type=${parsed.type}, optional=${parsed.optional}, referencedTable=${parsed.referencedTable}`,
+						`Parsed field ${fieldName}: type=${field.type}, optional=${field.optional}, referencedTable=${field.reference?.table}`,
 					);
 
-					// Use the parsed referencedTable from parseFieldDefinition
-					fields.push({
-						name: fieldName,
-						type: parsed.type,
-						optional: parsed.optional,
-						reference: parsed.referencedTable
-							? {
-									table: parsed.referencedTable,
-									isOption: parsed.optional,
-								}
-							: undefined,
-					});
+					fields.push(field);
 				} else if (typeof fieldInfo === "object") {
 					// It's already an object with properties
 					const fieldObject = fieldInfo as SurrealFieldInfo;
 					const fieldType = fieldObject.type || "string";
 					const fieldKind = fieldObject.kind;
 					const isOptional = fieldObject.optional === true;
+					const surrealType = resolveFieldType({
+						type: fieldType,
+						optional: isOptional,
+					});
 
 					console.log(
 						`Processing object field ${fieldName} with type: ${fieldType}`,
@@ -135,6 +132,7 @@ export async function fetchSchemaFromDB(
 										isOption: isOptional,
 									}
 								: undefined,
+							surrealType,
 						});
 						continue;
 					}
@@ -163,6 +161,7 @@ export async function fetchSchemaFromDB(
 											fieldType.startsWith("option<"),
 									}
 								: undefined,
+						surrealType,
 					});
 				} else {
 					console.warn(
@@ -173,7 +172,9 @@ export async function fetchSchemaFromDB(
 
 			tables.push({
 				name: tableName,
-				fields,
+				...parseTableDefinition(schemaInfo.tables?.[tableName]),
+				fields: mergeElementFields(tableName, fields),
+				indexes: parseIndexDefinitions(tableInfo.indexes),
 			});
 		}
 
@@ -215,7 +216,7 @@ export function parseSchemaFromInfoResponses(
 	}
 
 	// Process each table
-	for (const tableName of Object.keys(schemaInfo.tables)) {
+	for (const tableName of Object.keys(schemaInfo.tables).sort()) {
 		// Skip system tables
 		if (tableName.startsWith("_") || tableName.startsWith("sdb_")) {
 			continue;
@@ -229,12 +230,7 @@ export function parseSchemaFromInfoResponses(
 		const fields = [];
 
 		// Process fields
-		for (const fieldName of Object.keys(tableInfo.fields)) {
-			// Skip array item definitions
-			if (fieldName.includes("[*]")) {
-				continue;
-			}
-
+		for (const fieldName of Object.keys(tableInfo.fields).sort()) {
 			const fieldInfo = tableInfo.fields[fieldName];
 			if (!fieldInfo) {
 				continue;
@@ -243,26 +239,17 @@ export function parseSchemaFromInfoResponses(
 			// Handle both object and string field definitions
 			if (typeof fieldInfo === "string") {
 				// Parse the string definition
-				const parsed = parseFieldDefinition(fieldInfo);
-
-				// Use the parsed referencedTable from parseFieldDefinition
-				fields.push({
-					name: fieldName,
-					type: parsed.type,
-					optional: parsed.optional,
-					reference: parsed.referencedTable
-						? {
-								table: parsed.referencedTable,
-								isOption: parsed.optional,
-							}
-						: undefined,
-				});
+				fields.push(parseFieldInfo(fieldName, fieldInfo));
 			} else if (typeof fieldInfo === "object") {
 				// It's already an object with properties
 				const fieldObject = fieldInfo as SurrealFieldInfo;
 				const fieldType = fieldObject.type || "string";
 				const fieldKind = fieldObject.kind;
 				const isOptional = fieldObject.optional === true;
+				const surrealType = resolveFieldType({
+					type: fieldType,
+					optional: isOptional,
+				});
 
 				// Check if it's a references field
 				if (
@@ -283,6 +270,7 @@ export function parseSchemaFromInfoResponses(
 									isOption: isOptional,
 								}
 							: undefined,
+						surrealType,
 					});
 					continue;
 				}
@@ -311,13 +299,16 @@ export function parseSchemaFromInfoResponses(
 										fieldType.startsWith("option<"),
 								}
 							: undefined,
+					surrealType,
 				});
 			}
 		}
 
 		tables.push({
 			name: tableName,
-			fields,
+			...parseTableDefinition(schemaInfo.tables?.[tableName]),
+			fields: mergeElementFields(tableName, fields),
+			indexes: parseIndexDefinitions(tableInfo.indexes),
 		});
 	}
 
@@ -14,7 +14,10 @@ export * from "./interfaces.ts";
 // Export functions from parser module
 export {
   normalizeSchemaInfo,
-  parseFieldDefinition
+  parseFieldDefinition,
+  parseFieldInfo,
+  parseIndexDefinitions,
+  parseTableDefinition
 } from "./parser.ts";
 
 // Export connection functionality
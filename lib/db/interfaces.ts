@@ -1,6 +1,7 @@
 /**
  * Interface definitions for SurrealDB schema information
  */
+import type { SurrealType } from "../parser/index.ts";
 
 /**
  * Schema information retrieved from SurrealDB info endpoints
@@ -51,4 +52,8 @@ export interface ParsedFieldDefinition {
 	kind: string;
 	optional: boolean;
 	referencedTable?: string;
+	description?: string;
+	defaultValue?: string;
+	/** Full type IR of the field, including a top-level option */
+	surrealType: SurrealType;
 }
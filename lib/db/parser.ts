@@ -1,4 +1,20 @@
 import type { ParsedFieldDefinition, SurrealDBSchemaInfo } from "./interfaces.ts";
+import {
+  formatSurrealType,
+  parseStatements,
+  type SurrealType,
+  unwrapOption,
+} from "../parser/index.ts";
+import {
+  buildFieldDefinition,
+  buildFunctionDefinition,
+  buildIndexDefinition,
+  buildTableDefinition,
+  type FieldDefinition,
+  type FunctionDefinition,
+  type IndexDefinition,
+  type TableDefinition,
+} from "../schema.ts";
 
 /**
  * Parse a field definition string from SurrealDB
@@ -7,135 +23,133 @@ import type { ParsedFieldDefinition, SurrealDBSchemaInfo } from "./interfaces.ts
  * @returns Object containing parsed field information
  */
 export function parseFieldDefinition(fieldDef: string): ParsedFieldDefinition {
-  // Extract the actual type from the field definition
-  const typeMatch = fieldDef.match(/TYPE\s+(\S+)/i);
-  if (!typeMatch) {
-    console.log(`No type found in field definition: ${fieldDef}`);
+  const statement = parseStatements(fieldDef).statements.find(
+    (s) => s.kind === 'DefineField',
+  );
+  if (!statement || statement.kind !== 'DefineField') {
+    console.log(`No field found in field definition: ${fieldDef}`);
     return {
-      type: 'string',
+      type: 'any',
       kind: 'scalar',
-      optional: false
+      optional: false,
+      surrealType: { kind: 'any' },
     };
   }
 
-  // Clean the extracted type to remove trailing characters like ; or >
-  let rawType = typeMatch[1];
-  // Remove trailing semicolon if present
-  if (rawType.endsWith(';')) {
-    rawType = rawType.slice(0, -1);
-  }
-
-  console.log(`Extracted type: ${rawType} from definition: ${fieldDef}`);
-
-  // Default values
-  let type = rawType.toLowerCase();
-  const kind = 'scalar';
-  let isOptional = false;
-  let referencedTable: string | undefined;
-
-  // Check if the type is an option type
-  if (type.startsWith('option<')) {
-    isOptional = true;
-    // Extract the inner type, removing the trailing '>' if present
-    const innerTypeMatch = type.match(/option<(.+?)>?$/);
-    const innerType = innerTypeMatch ? innerTypeMatch[1] : type.slice(7, -1);
-
-    // Check for references type in the inner type
-    if (innerType.startsWith('references<')) {
-      const matchRef = innerType.match(/references<([^>]+)>/);
-      referencedTable = matchRef ? matchRef[1] : undefined;
-      console.log(`Found optional references field: ${innerType} -> ${referencedTable}`);
-      return {
-        type: 'references',
-        kind: 'relation',
-        optional: isOptional,
-        referencedTable
-      };
-    }
+  // Same field model as .surql files, so nested types keep their structure
+  const field = buildFieldDefinition(statement);
+  const surrealType = field.surrealType ?? { kind: 'any' };
+  const { type, optional } = unwrapOption(surrealType);
 
-    // Check for record type in inner type
-    if (innerType.startsWith('record<')) {
-      const matchRecord = innerType.match(/record<([^>]+)>/);
-      referencedTable = matchRecord ? matchRecord[1] : undefined;
-      console.log(`Found optional record field: ${innerType} -> ${referencedTable}`);
-      return {
-        type: 'record',
-        kind: 'relation',
-        optional: isOptional,
-        referencedTable
-      };
-    }
+  return {
+    ...legacyFieldType(type),
+    optional,
+    description: field.description,
+    defaultValue: field.defaultValue,
+    surrealType,
+  };
+}
 
-    // Use the inner type for further processing
-    type = innerType;
+/**
+ * Parse a field definition string from an INFO FOR TABLE response into the
+ * same field model that parseSurQL produces
+ * 
+ * @param name - The field name (the key in the INFO response)
+ * @param fieldDef - The raw DEFINE FIELD statement
+ * @returns The field definition
+ */
+export function parseFieldInfo(name: string, fieldDef: string): FieldDefinition {
+  const statement = parseStatements(fieldDef).statements.find(
+    (s) => s.kind === 'DefineField',
+  );
+  if (!statement || statement.kind !== 'DefineField') {
+    return { name, type: 'any', optional: false, surrealType: { kind: 'any' } };
   }
 
-  // Check for references type directly
-  if (type.startsWith('references<')) {
-    const matchRef = type.match(/references<([^>]+)>/);
-    referencedTable = matchRef ? matchRef[1] : undefined;
-    console.log(`Found references field: ${type} -> ${referencedTable}`);
-    return {
-      type: 'references',
-      kind: 'relation',
-      optional: isOptional,
-      referencedTable
-    };
-  }
+  return { ...buildFieldDefinition(statement), name };
+}
 
-  // Check for record type directly
-  if (type.startsWith('record<')) {
-    const matchRecord = type.match(/record<([^>]+)>/);
-    referencedTable = matchRecord ? matchRecord[1] : undefined;
-    console.log(`Found record field: ${type} -> ${referencedTable}`);
-    return {
-      type: 'record',
-      kind: 'relation',
-      optional: isOptional,
-      referencedTable
-    };
+/**
+ * Flatten a field type into the simplified type and kind names used by
+ * the DB extraction
+ */
+function legacyFieldType(
+  type: SurrealType,
+): Pick<ParsedFieldDefinition, 'type' | 'kind' | 'referencedTable'> {
+  switch (type.kind) {
+    case 'record':
+    case 'references':
+      return { type: type.kind, kind: 'relation', referencedTable: type.tables[0] };
+    case 'array':
+    case 'set':
+      return { type: 'array', kind: 'array' };
+    case 'scalar':
+      // Numbers are treated as integers for consistency with mod.ts processing
+      return { type: type.name === 'number' ? 'int' : type.name, kind: 'scalar' };
+    case 'any':
+    case 'object':
+      return { type: type.kind, kind: 'scalar' };
+    default:
+      return { type: formatSurrealType(type), kind: 'scalar' };
   }
+}
 
-  // Simplify array types for consistency with mod.ts processing
-  if (type.startsWith('array<')) {
-    return {
-      type: 'array',
-      kind: 'array',
-      optional: isOptional
-    };
+/**
+ * Parse a table definition from an INFO FOR DB response
+ * 
+ * @param definition - The DEFINE TABLE statement of the table
+ * @returns The table description, type, relation endpoints and permissions
+ */
+export function parseTableDefinition(
+  definition: string | { name: string } | undefined,
+): Pick<TableDefinition, 'description' | 'tableType' | 'relation' | 'permissions'> {
+  if (typeof definition !== 'string') {
+    return {};
   }
 
-  // Handle basic types
-  if (type === 'int' || type === 'integer' || type === 'number') {
-    return {
-      type: 'int',
-      kind: 'scalar',
-      optional: isOptional
-    };
+  const statement = parseStatements(definition).statements[0];
+  if (!statement || statement.kind !== 'DefineTable') {
+    return {};
   }
 
-  if (type === 'bool' || type === 'boolean') {
-    return {
-      type: 'bool',
-      kind: 'scalar',
-      optional: isOptional
-    };
-  }
+  const { name: _name, fields: _fields, ...metadata } = buildTableDefinition(statement);
+  return metadata;
+}
 
-  if (type === 'datetime') {
-    return {
-      type: 'datetime',
-      kind: 'scalar',
-      optional: isOptional
-    };
-  }
+/**
+ * Parse the index definitions of an INFO FOR TABLE response
+ * 
+ * @param indexes - Map of index names to their DEFINE INDEX statements
+ * @returns Parsed index definitions
+ */
+export function parseIndexDefinitions(
+  indexes: Record<string, string> | undefined,
+): IndexDefinition[] {
+  const definitions = indexes ?? {};
+  // Sorted by name, as the database does not return them in a stable order
+  return Object.keys(definitions).sort().flatMap((name) =>
+    parseStatements(definitions[name]).statements
+      .filter((statement) => statement.kind === 'DefineIndex')
+      .map(buildIndexDefinition)
+  );
+}
 
-  return {
-    type,
-    kind,
-    optional: isOptional,
-    referencedTable
-  };
+/**
+ * Parse the function definitions of an INFO FOR DB response
+ * 
+ * @param functions - Map of function names to their DEFINE FUNCTION statements
+ * @returns Parsed function definitions
+ */
+export function parseFunctionDefinitions(
+  functions: Record<string, string> | undefined,
+): FunctionDefinition[] {
+  const definitions = functions ?? {};
+  // Sorted by name, as the database does not return them in a stable order
+  return Object.keys(definitions).sort().flatMap((name) =>
+    parseStatements(definitions[name]).statements
+      .filter((statement) => statement.kind === 'DefineFunction')
+      .map((statement) => buildFunctionDefinition(statement))
+  );
 }
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Diagnostics reported while reading a schema
+ *
+ * Problems that used to drop a field or table silently are collected as
+ * diagnostics with a source position and a short code, so the CLI can print
+ * them in compiler style and fail when the output would be incomplete.
+ */
+import type { Span } from "./parser/index.ts";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * Short codes identifying each kind of diagnostic
+ */
+export const DiagnosticCode = {
+	/** The SurrealQL could not be parsed */
+	SyntaxError: "SQ001",
+	/** A TYPE clause is not a valid SurrealQL type */
+	InvalidType: "SQ002",
+	/** A definition is valid SurrealQL but is not reflected in the output */
+	Unsupported: "SQ003",
+	/** A record type points at a table that is not defined */
+	UnknownTable: "SQ004",
+	/** A statement is not part of the generated output */
+	Ignored: "SQ005",
+	/** The same table is defined in more than one file */
+	DuplicateTable: "SQ006",
+	/** A definition is repeated without OVERWRITE, so SurrealDB keeps the first */
+	Redefined: "SQ007",
+	/** ALTER or REMOVE of something that does not exist */
+	NotFound: "SQ008",
+} as const;
+
+export type DiagnosticCode = typeof DiagnosticCode[keyof typeof DiagnosticCode];
+
+export interface Diagnostic {
+	severity: DiagnosticSeverity;
+	code: DiagnosticCode;
+	message: string;
+	/** Path of the file the diagnostic refers to, when known */
+	file?: string;
+	span?: Span;
+}
+
+/**
+ * Record a diagnostic, or print it as a warning when nobody collects them
+ *
+ * @param diagnostics - The list to add to, if any
+ * @param diagnostic - The diagnostic to record
+ */
+export function report(
+	diagnostics: Diagnostic[] | undefined,
+	diagnostic: Diagnostic,
+): void {
+	if (diagnostics) {
+		diagnostics.push(diagnostic);
+	} else if (diagnostic.severity !== "info") {
+		console.warn(formatDiagnostic(diagnostic));
+	}
+}
+
+/**
+ * Format a diagnostic in compiler style, e.g.
+ * `schema.surql:3:28 - error SQ002: Invalid type 'strin': unknown type 'strin'`
+ *
+ * @param diagnostic - The diagnostic to format
+ * @returns The formatted diagnostic
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+	const location = diagnostic.span
+		? `${diagnostic.file ?? "<input>"}:${diagnostic.span.start.line}:${diagnostic.span.start.column}`
+		: diagnostic.file;
+	const message = `${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+	return location ? `${location} - ${message}` : message;
+}
+
+/**
+ * Whether the diagnostics should fail the run
+ *
+ * @param diagnostics - The collected diagnostics
+ * @param strict - Whether warnings count as failures
+ * @returns True when there is an error, or a warning in strict mode
+ */
+export function hasFailures(diagnostics: Diagnostic[], strict = false): boolean {
+	return diagnostics.some(
+		(diagnostic) =>
+			diagnostic.severity === "error" ||
+			(strict && diagnostic.severity === "warning"),
+	);
+}
@@ -1,4 +1,31 @@
-import type { TableDefinition } from "./schema.ts";
+import { generateBanner } from "./banner.ts";
+import {
+  type Constraint,
+  FORMAT_PATTERNS,
+  type LiteralValue,
+  translateAssert,
+} from "./constraints.ts";
+import {
+  formatSurrealType,
+  type GeometryTypeName,
+  type ObjectTypeField,
+  parseSurrealType,
+  type SurrealType,
+  unwrapOption,
+} from "./parser/index.ts";
+import type { NamingConfig, SchemaOverride } from "./config.ts";
+import {
+  type FieldDefinition,
+  formatPropertyName,
+  formatSchemaName,
+  type FunctionDefinition,
+  type IndexDefinition,
+  isReadonlyField,
+  type PermissionsDefinition,
+  resolveFieldType,
+  type TableDefinition,
+  tableFields,
+} from "./schema.ts";
 
 /**
  * Format a table name as a class name
@@ -8,24 +35,9 @@ function formatClassName(tableName: string): string {
 }
 
 /**
- * Generate Effect Model classes from SurrealDB table definitions
+ * Record id schemas shared by the generated tables
  */
-export function generateEffectSchemas(tables: TableDefinition[]): string {
-  // Prepare imports
-  const imports = `/**
- * ⚠️ AUTO-GENERATED FILE ⚠️
- * This file is automatically generated. Do not modify it manually.
- * Any changes made to this file will be overwritten when regenerating.
- * 
- * Generated by: @necmttn/surql
- * Date: ${new Date().toISOString()}
- */
-
-// Effect Schema Class API integration for SurrealDB types
-import { Schema } from "effect";
-import { RecordId, StringRecordId } from "surrealdb";
-
-export const stringRecordIdSchema = <T extends string>(tableName: T) => Schema.transform(
+const RECORD_ID_HELPERS = `export const stringRecordIdSchema = <T extends string>(tableName: T) => Schema.transform(
   recordIdLiteral(tableName),
   Schema.instanceOf(StringRecordId),
   {
@@ -90,95 +102,630 @@ export const flexibleRecordId = <T extends string>(tableName: T) => Schema.Union
 );
 `;
 
-  // Generate table classes
-  const tableClasses = tables
-    .map((table) => {
-      const { name, fields, description } = table;
-      const className = formatClassName(name);
-
-      // Check if table already has an 'id' field
-      const hasIdField = fields.some((field) => field.name === "id");
-
-      // Create a map to organize nested fields
-      const nestedFieldsMap = new Map<
-        string,
-        Array<{ path: string[]; field: any }>
-      >();
-
-      // First pass: identify and group nested fields
-      // biome-ignore lint/complexity/noForEach: <explanation>
-      fields.forEach((field) => {
-        const fieldNameParts = field.name.split(".");
-        if (fieldNameParts.length > 1 && fieldNameParts[0]) {
-          // This is a nested field
-          const rootField = fieldNameParts[0];
-          if (!nestedFieldsMap.has(rootField)) {
-            nestedFieldsMap.set(rootField, []);
-          }
-          nestedFieldsMap.get(rootField)?.push({
-            path: fieldNameParts.slice(1),
-            field,
-          });
-        }
-      });
+/**
+ * Schemas for the SurrealDB SDK's value classes, each emitted only when a
+ * field uses one of its exports
+ */
+interface ValueHelper {
+  /** Names the generated code refers to */
+  exports: string[];
+  /** Imports from the surrealdb package */
+  surrealdb: string[];
+  code: string;
+}
 
-      // Create a list of field definitions
-      let fieldDefinitions: string[] = [];
+const VALUE_HELPERS: ValueHelper[] = [
+  {
+    exports: ["surrealDecimal"],
+    surrealdb: ["Decimal"],
+    code: `
+/**
+ * A decimal, decoded from the SDK's Decimal into an exact BigDecimal
+ */
+export const surrealDecimal = Schema.transform(
+  Schema.instanceOf(Decimal),
+  Schema.BigDecimalFromSelf,
+  {
+    strict: true,
+    decode: (from) => BigDecimal.unsafeFromString(from.toString()),
+    encode: (to) => new Decimal(BigDecimal.format(to)),
+  }
+);
+`,
+  },
+  {
+    exports: ["surrealDuration"],
+    surrealdb: ["Duration as SurrealDuration"],
+    code: `
+/**
+ * A duration, decoded from the SDK's Duration into an Effect Duration.
+ * Converts through milliseconds, the SDK's own unit, and rejects
+ * Duration.infinity, which the database cannot store
+ */
+export const surrealDuration = Schema.transform(
+  Schema.instanceOf(SurrealDuration),
+  Schema.DurationFromSelf.pipe(
+    Schema.filter(Duration.isFinite, { message: () => "Expected a finite duration" })
+  ),
+  {
+    strict: true,
+    decode: (from) => Duration.millis(from.milliseconds),
+    encode: (to) => SurrealDuration.milliseconds(Duration.toMillis(to)),
+  }
+);
+`,
+  },
+  {
+    exports: ["surrealUuid"],
+    surrealdb: ["Uuid"],
+    code: `
+/**
+ * A UUID, decoded from the SDK's Uuid into its string form
+ */
+export const surrealUuid = Schema.transform(
+  Schema.instanceOf(Uuid),
+  Schema.UUID,
+  {
+    strict: true,
+    decode: (from) => from.toString(),
+    encode: (to) => new Uuid(to),
+  }
+);
+`,
+  },
+  {
+    exports: ["surrealBytes"],
+    surrealdb: [],
+    code: `
+/**
+ * Bytes, decoded from the ArrayBuffer the SDK returns into a Uint8Array
+ */
+export const surrealBytes = Schema.transform(
+  Schema.instanceOf(ArrayBuffer),
+  Schema.Uint8ArrayFromSelf,
+  {
+    strict: true,
+    decode: (from) => new Uint8Array(from),
+    encode: (to) => Uint8Array.from(to).buffer,
+  }
+);
+`,
+  },
+  {
+    exports: ["surrealRange"],
+    surrealdb: ["Range"],
+    code: `
+/**
+ * A range value, kept as the SDK's Range
+ */
+export const surrealRange = Schema.instanceOf(Range);
+`,
+  },
+  {
+    exports: [
+      "surrealGeometry",
+      "GeoJson",
+      "GeoJsonPoint",
+      "GeoJsonLineString",
+      "GeoJsonPolygon",
+      "GeoJsonMultiPoint",
+      "GeoJsonMultiLineString",
+      "GeoJsonMultiPolygon",
+      "GeoJsonGeometryCollection",
+    ],
+    surrealdb: [
+      "Geometry",
+      "GeometryCollection",
+      "GeometryLine",
+      "GeometryMultiLine",
+      "GeometryMultiPoint",
+      "GeometryMultiPolygon",
+      "GeometryPoint",
+      "GeometryPolygon",
+    ],
+    code: `
+const geoJsonPosition = Schema.Tuple(Schema.Number, Schema.Number);
+const geoJsonLine = Schema.Array(geoJsonPosition).pipe(Schema.minItems(2));
+const geoJsonPolygon = Schema.Array(geoJsonLine).pipe(Schema.minItems(1));
 
-      // Add default 'id' field if not explicitly defined
-      if (!hasIdField) {
-        fieldDefinitions.push(`  id: recordId("${name}")`);
-      }
+export const GeoJsonPoint = Schema.Struct({
+  type: Schema.Literal("Point"),
+  coordinates: geoJsonPosition,
+});
+export const GeoJsonLineString = Schema.Struct({
+  type: Schema.Literal("LineString"),
+  coordinates: geoJsonLine,
+});
+export const GeoJsonPolygon = Schema.Struct({
+  type: Schema.Literal("Polygon"),
+  coordinates: geoJsonPolygon,
+});
+export const GeoJsonMultiPoint = Schema.Struct({
+  type: Schema.Literal("MultiPoint"),
+  coordinates: Schema.Array(geoJsonPosition).pipe(Schema.minItems(1)),
+});
+export const GeoJsonMultiLineString = Schema.Struct({
+  type: Schema.Literal("MultiLineString"),
+  coordinates: Schema.Array(geoJsonLine).pipe(Schema.minItems(1)),
+});
+export const GeoJsonMultiPolygon = Schema.Struct({
+  type: Schema.Literal("MultiPolygon"),
+  coordinates: Schema.Array(geoJsonPolygon).pipe(Schema.minItems(1)),
+});
+export const GeoJsonGeometryCollection = Schema.Struct({
+  type: Schema.Literal("GeometryCollection"),
+  geometries: Schema.Array(
+    Schema.Union(
+      GeoJsonPoint,
+      GeoJsonLineString,
+      GeoJsonPolygon,
+      GeoJsonMultiPoint,
+      GeoJsonMultiLineString,
+      GeoJsonMultiPolygon,
+    )
+  ).pipe(Schema.minItems(1)),
+});
+export const GeoJson = Schema.Union(
+  GeoJsonPoint,
+  GeoJsonLineString,
+  GeoJsonPolygon,
+  GeoJsonMultiPoint,
+  GeoJsonMultiLineString,
+  GeoJsonMultiPolygon,
+  GeoJsonGeometryCollection,
+);
 
-      // Process non-nested fields first
-      const processedFields = new Set<string>();
-      // biome-ignore lint/complexity/noForEach: <explanation>
-      fields.forEach((field) => {
-        const fieldNameParts = field.name.split(".");
-        const rootFieldName = fieldNameParts[0];
+type GeoJsonPosition = typeof geoJsonPosition.Type;
 
-        if (!rootFieldName) return;
+const toGeometryPoint = (position: GeoJsonPosition) =>
+  new GeometryPoint([position[0], position[1]]);
+const toGeometryLine = (positions: ReadonlyArray<GeoJsonPosition>) =>
+  new GeometryLine(positions.map(toGeometryPoint) as [GeometryPoint, GeometryPoint]);
+const toGeometryPolygon = (lines: ReadonlyArray<ReadonlyArray<GeoJsonPosition>>) =>
+  new GeometryPolygon(lines.map(toGeometryLine) as [GeometryLine]);
 
-        // If this is a nested field, skip it
-        if (field.name.includes(".")) return;
+const toGeometry = (value: typeof GeoJson.Type): Geometry => {
+  switch (value.type) {
+    case "Point":
+      return toGeometryPoint(value.coordinates);
+    case "LineString":
+      return toGeometryLine(value.coordinates);
+    case "Polygon":
+      return toGeometryPolygon(value.coordinates);
+    case "MultiPoint":
+      return new GeometryMultiPoint(value.coordinates.map(toGeometryPoint) as [GeometryPoint]);
+    case "MultiLineString":
+      return new GeometryMultiLine(value.coordinates.map(toGeometryLine) as [GeometryLine]);
+    case "MultiPolygon":
+      return new GeometryMultiPolygon(value.coordinates.map(toGeometryPolygon) as [GeometryPolygon]);
+    case "GeometryCollection":
+      return new GeometryCollection(value.geometries.map(toGeometry) as [Geometry]);
+  }
+};
 
-        // If this is a root field that has nested fields, we'll process it separately
-        if (nestedFieldsMap.has(rootFieldName)) {
-          processedFields.add(rootFieldName);
-        }
-        // Otherwise process it as a normal field
-        else {
-          processedFields.add(field.name);
-          const fieldDef = generateFieldDefinition(field, tables);
-          fieldDefinitions.push(`  ${field.name}: ${fieldDef}`);
-        }
-      });
+/**
+ * A geometry, decoded from the SDK's Geometry classes into GeoJSON that
+ * matches \`geoJson\`
+ */
+export const surrealGeometry = <A extends typeof GeoJson.Type>(
+  geoJson: Schema.Schema<A>,
+) => Schema.transform(Schema.instanceOf(Geometry), geoJson, {
+  strict: false,
+  decode: (from) => from.toJSON(),
+  encode: (to) => toGeometry(to),
+});
+`,
+  },
+];
 
-      // Process nested fields
-      nestedFieldsMap.forEach((nestedFields, rootField) => {
-        // We need to find the root field definition
-        const rootFieldDef = fields.find((f) => f.name === rootField) || {
-          name: rootField,
-          type: "object",
-          optional: true,
-        };
-
-        // Create the nested schema structure
-        const nestedSchema = generateNestedSchema(
-          rootFieldDef,
-          nestedFields,
-          tables,
-        );
-        fieldDefinitions.push(`  ${rootField}: ${nestedSchema}`);
-      });
+/**
+ * The value helpers `code` refers to
+ */
+function usedValueHelpers(code: string): ValueHelper[] {
+  return VALUE_HELPERS.filter((helper) =>
+    helper.exports.some((name) => new RegExp(`\\b${name}\\b`).test(code))
+  );
+}
+
+/**
+ * Generate the import from "effect" for `code`, which always uses Schema
+ */
+function generateEffectImport(code: string): string {
+  const names = ["BigDecimal", "Duration"].filter((name) =>
+    new RegExp(`\\b${name}\\.`).test(code)
+  );
+  return `import { ${[...names, "Schema"].join(", ")} } from "effect";`;
+}
+
+/**
+ * Options for {@link generateEffectSchemas}
+ */
+export interface EffectSchemaOptions {
+  naming?: NamingConfig;
+  /** Schemas to use instead of the generated ones for matching fields */
+  overrides?: SchemaOverride[];
+}
+
+/**
+ * Generate Effect Model classes from SurrealDB table definitions, plus typed
+ * callers for any `fn::*` functions
+ */
+export function generateEffectSchemas(
+  tables: TableDefinition[],
+  functions: FunctionDefinition[] = [],
+  options: EffectSchemaOptions = {},
+): string {
+  const tableBodies = tables.map((table) => generateTableBody(table, tables, options));
+  const functionCallers = generateFunctionCallers(functions);
+  const valueHelpers = usedValueHelpers(
+    `${tableBodies.map((table) => table.body).join("\n")}${functionCallers}`,
+  );
+  const valueHelperCode = valueHelpers.map((helper) => helper.code).join("");
+  const surrealdb = [
+    "RecordId",
+    "StringRecordId",
+    ...valueHelpers.flatMap((helper) => helper.surrealdb),
+    "type Surreal",
+  ];
 
-      const tableDescription = description
-        ? `\n/**\n * ${(description || "").replace(/'/g, "\\'")}\n */`
-        : "";
+  // Prepare imports
+  const imports = `${generateBanner()}
 
-      return `${tableDescription}
+// Effect Schema Class API integration for SurrealDB types
+${generateEffectImport(`${tableBodies.map((table) => table.body).join("\n")}${valueHelperCode}`)}
+import { ${surrealdb.join(", ")} } from "surrealdb";
+${formatOverrideImports(tableBodies.flatMap((table) => table.imports))}
+${RECORD_ID_HELPERS}${valueHelperCode}`;
+
+  const tableClasses = tableBodies
+    .map(({ className, description, body }) => {
+      return `${description}
 export namespace ${className} {
-  export const Fields = {
+${body}
+}`;
+    })
+    .join("\n");
+
+  return `${imports}\n${tableClasses}${functionCallers}`;
+}
+
+/**
+ * Options for {@link generateEffectModules}
+ */
+export interface EffectModuleOptions extends EffectSchemaOptions {
+  /** File extension of the modules, e.g. `ts` */
+  extension?: string;
+  /** Extension used in import specifiers, e.g. `.js` for Node ESM */
+  importExtension?: string;
+}
+
+/**
+ * Generate one ES module per table instead of a namespace per table in a
+ * single file
+ *
+ * The record id schemas go into a shared `helpers` module and the `fn::*`
+ * callers into `functions`. The index re-exports each table module under
+ * its class name (and the callers as `fn`), so `User.Create` keeps working.
+ * Each table module exports its record id schema as `Id`, and record links
+ * import it from the linked table's module.
+ *
+ * @returns The index source and the other modules keyed by file name
+ */
+export function generateEffectModules(
+  tables: TableDefinition[],
+  functions: FunctionDefinition[] = [],
+  options: EffectModuleOptions = {},
+): { index: string; modules: Record<string, string> } {
+  const { extension = "ts", importExtension = `.${extension}` } = options;
+  const modules: Record<string, string> = {};
+  const exports: string[] = [`export * from "./helpers${importExtension}";`];
+
+  const tableModules = tables.map((table) => {
+    const { className, description, body, imports } = generateTableBody(table, tables, options);
+    return { table, className, imports, code: `${description}\n${dedent(body)}\n` };
+  });
+  const functionCode = functions.length > 0
+    ? `
+${SURREAL_FUNCTION_HELPER}
+${generateFunctionCallerExports(functions).map(dedent).join("\n\n")}
+`
+    : undefined;
+
+  // The helpers module only holds the value schemas some module uses
+  const valueHelpers = usedValueHelpers(
+    `${tableModules.map((module) => module.code).join("")}${functionCode ?? ""}`,
+  );
+  const valueHelperCode = valueHelpers.map((helper) => helper.code).join("");
+  const surrealdb = ["RecordId", "StringRecordId", ...valueHelpers.flatMap((helper) => helper.surrealdb)];
+  modules[`helpers.${extension}`] = `${generateBanner()}
+
+// Record id schemas shared by the table modules
+${generateEffectImport(valueHelperCode)}
+import { ${surrealdb.join(", ")} } from "surrealdb";
+
+${RECORD_ID_HELPERS}${valueHelperCode}`;
+
+  const classNames = new Map(tableModules.map(({ table, className }) => [table.name, className]));
+  for (const { table, className, imports, code: body } of tableModules) {
+    const { code, links } = linkTableModules(body, table.name, classNames, importExtension);
+    modules[`${table.name}.${extension}`] = `${generateBanner()}
+
+${generateEffectImport(code)}
+${generateModuleImports(code, importExtension)}${links}${formatOverrideImports(imports)}${code}`;
+    exports.push(`export * as ${className} from "./${table.name}${importExtension}";`);
+  }
+
+  if (functionCode !== undefined) {
+    modules[`functions.${extension}`] = `${generateBanner()}
+
+// Typed callers for the fn::* functions defined in the schema
+${generateEffectImport(functionCode)}
+${generateModuleImports(functionCode, importExtension)}${functionCode}`;
+    exports.push(`export * as fn from "./functions${importExtension}";`);
+  }
+
+  return {
+    index: `${generateBanner()}
+
+${exports.join("\n")}
+`,
+    modules,
+  };
+}
+
+/**
+ * Point the record ids in a table module at the modules of their tables
+ *
+ * The module exports its own record id schema as `Id` and imports the `Id`
+ * of each table it links to. Those are suspended: tables that link to each
+ * other import each other, and the module imported back is not initialized
+ * yet while the first one is evaluated.
+ */
+function linkTableModules(
+  body: string,
+  tableName: string,
+  classNames: Map<string, string>,
+  importExtension: string,
+): { code: string; links: string } {
+  const linked = new Map<string, string>();
+  const code = body.replace(/\brecordId\("([^"]+)"\)/g, (match, table: string) => {
+    if (table === tableName) return "Id";
+    const className = classNames.get(table);
+    if (className === undefined) return match;
+    linked.set(table, `${className}Id`);
+    return `Schema.suspend(() => ${className}Id)`;
+  });
+
+  return {
+    code: `
+/** Record id of a ${tableName} */
+export const Id = recordId("${tableName}");
+${code}`,
+    links: [...linked]
+      .map(([table, alias]) => `import { Id as ${alias} } from "./${table}${importExtension}";\n`)
+      .join(""),
+  };
+}
+
+/**
+ * Generate the surrealdb and helpers imports a module's code uses
+ */
+function generateModuleImports(code: string, importExtension: string): string {
+  const surrealdb = [
+    /\bRecordId\b/.test(code) ? "RecordId" : undefined,
+    /\bSurreal\b/.test(code) ? "type Surreal" : undefined,
+  ].filter((name) => name !== undefined);
+  const helpers = [
+    ...["recordId", "flexibleRecordId"].filter((name) => new RegExp(`\\b${name}\\(`).test(code)),
+    ...usedValueHelpers(code).flatMap((helper) =>
+      helper.exports.filter((name) => new RegExp(`\\b${name}\\b`).test(code))
+    ),
+  ];
+
+  return [
+    surrealdb.length > 0 ? `import { ${surrealdb.join(", ")} } from "surrealdb";\n` : "",
+    helpers.length > 0
+      ? `import { ${helpers.join(", ")} } from "./helpers${importExtension}";\n`
+      : "",
+  ].join("");
+}
+
+/**
+ * Remove one level of indentation from namespace members
+ */
+function dedent(code: string): string {
+  return code.split("\n").map((line) => line.replace(/^( {2}|\t)/, "")).join("\n");
+}
+
+/**
+ * Generate the exports for one table: its Fields, class and write variants
+ */
+function generateTableBody(
+  table: TableDefinition,
+  tables: TableDefinition[],
+  { naming = {}, overrides = [] }: EffectSchemaOptions = {},
+): { className: string; description: string; body: string; imports: string[] } {
+  const { name, description } = table;
+  const imports = new Set<string>();
+  const literalSets = new Map<string, { field: string; values: LiteralValue[] }>();
+  const rename = fieldRenamer(table, naming);
+  const settingsFor: FieldLookup = (field) => {
+    const override = matchOverride(overrides, table.name, field);
+    if (override?.import) imports.add(override.import);
+    if (override) return { override };
+
+    const values = allowedLiterals(field);
+    if (!values) return { rename };
+    const literals = `${formatPropertyName(field.name.replace(/\[\*\]/g, "").replace(/\W+/g, "_"))}Values`;
+    const previous = literalSets.get(literals);
+    if (previous && previous.field !== field.name) {
+      throw new Error(
+        `Fields ${previous.field} and ${field.name} of table ${table.name} would both define ${literals}`,
+      );
+    }
+    literalSets.set(literals, { field: field.name, values });
+    return { literals, rename };
+  };
+  const fields = tableFields(table);
+  const className = naming.classes === "pascal"
+    ? formatSchemaName(name)
+    : formatClassName(name);
+
+  // Check if table already has an 'id' field
+  const hasIdField = fields.some((field) => field.name === "id");
+
+  // Create a map to organize nested fields
+  const nestedFieldsMap = new Map<
+    string,
+    Array<{ path: string[]; field: any }>
+  >();
+
+  // First pass: identify and group nested fields
+  // biome-ignore lint/complexity/noForEach: <explanation>
+  fields.forEach((field) => {
+    const fieldNameParts = field.name.split(".");
+    if (fieldNameParts.length > 1 && fieldNameParts[0]) {
+      // This is a nested field
+      const rootField = fieldNameParts[0];
+      if (!nestedFieldsMap.has(rootField)) {
+        nestedFieldsMap.set(rootField, []);
+      }
+      nestedFieldsMap.get(rootField)?.push({
+        path: fieldNameParts.slice(1),
+        field,
+      });
+    }
+  });
+
+  // Create a list of field definitions
+  const fieldDefinitions: string[] = [];
+
+  // Add default 'id' field if not explicitly defined
+  if (!hasIdField) {
+    fieldDefinitions.push(`  id: recordId("${name}")`);
+  }
+
+  // Fields the client may write. Create makes DEFAULT fields optional,
+  // MERGE makes every field optional and PATCH addresses them by path.
+  // Fields the database sets itself are left out of all three. Objects
+  // whose nested fields differ on create pass that schema as `created`, which
+  // create and PATCH take for the whole object.
+  const createEntries: string[] = [];
+  const mergeEntries: string[] = [];
+  const patchPaths: PatchPath[] = [];
+  const addWritableField = (
+    field: FieldDefinition,
+    generated: GeneratedSchema,
+    merged: string,
+    created?: string,
+  ) => {
+    if (isReadonlyField(field)) return;
+    const key = rename(field.name);
+    const reference = `Fields.${key}`;
+    if (created !== undefined) {
+      const optional = field.defaultValue !== undefined || generated.optional;
+      createEntries.push(`    ${generateEntry(key, field.name, created, optional)}`);
+    } else if (field.defaultValue === undefined || generated.optional) {
+      createEntries.push(`    ${key}: ${reference}`);
+    } else if (key === field.name) {
+      createEntries.push(`    ${key}: Schema.optional(${reference})`);
+    } else {
+      createEntries.push(`    ${generateEntry(key, field.name, generated.schema, true)}`);
+    }
+    mergeEntries.push(`    ${generateEntry(key, field.name, merged, true)}`);
+    patchPaths.push({ path: [field.name], ...generated, schema: created ?? generated.schema });
+  };
+
+  // Process non-nested fields first
+  const processedFields = new Set<string>();
+  // biome-ignore lint/complexity/noForEach: <explanation>
+  fields.forEach((field) => {
+    const fieldNameParts = field.name.split(".");
+    const rootFieldName = fieldNameParts[0];
+
+    if (!rootFieldName) return;
+
+    // If this is a nested field, skip it
+    if (field.name.includes(".")) return;
+
+    // If this is a root field that has nested fields, we'll process it
+    // separately, unless an override replaces the whole object
+    const settings = settingsFor(field);
+    if (nestedFieldsMap.has(rootFieldName) && !settings.override) {
+      processedFields.add(rootFieldName);
+    }
+    // Otherwise process it as a normal field
+    else {
+      nestedFieldsMap.delete(rootFieldName);
+      processedFields.add(field.name);
+      const generated = generateFieldSchema(field, tables, false, settings);
+      fieldDefinitions.push(
+        `  ${generateEntry(rename(field.name), field.name, generated.schema, generated.optional)}`,
+      );
+      addWritableField(
+        field,
+        generated,
+        generateFieldSchema(field, tables, true, settings).schema,
+      );
+    }
+  });
+
+  // Process nested fields
+  nestedFieldsMap.forEach((nestedFields, rootField) => {
+    // We need to find the root field definition
+    const rootFieldDef = fields.find((f) => f.name === rootField) || {
+      name: rootField,
+      type: "object",
+      optional: true,
+    };
+
+    // Create the nested schema structure
+    const nestedSchema = generateNestedSchema(
+      rootFieldDef,
+      nestedFields,
+      tables,
+      "record",
+      rename,
+      settingsFor,
+    );
+    fieldDefinitions.push(
+      `  ${generateEntry(rename(rootField), rootField, nestedSchema.schema, nestedSchema.optional)}`,
+    );
+    const created = generateNestedSchema(
+      rootFieldDef,
+      nestedFields,
+      tables,
+      "create",
+      rename,
+      settingsFor,
+    ).schema;
+    addWritableField(
+      rootFieldDef,
+      nestedSchema,
+      generateNestedSchema(rootFieldDef, nestedFields, tables, "merge", rename, settingsFor).schema,
+      // Reuse the record's schema unless nested fields differ on create
+      created === nestedSchema.schema ? undefined : created,
+    );
+
+    // Nested definitions can be patched on their own
+    if (!isReadonlyField(rootFieldDef)) {
+      for (const { path, field } of nestedFields) {
+        if (isReadonlyField(field)) continue;
+        patchPaths.push({
+          path: [rootField, ...path],
+          ...generateFieldSchema(field, tables, false, settingsFor(field)),
+        });
+      }
+    }
+  });
+
+  const tableDescription = description
+    ? `\n/**\n * ${(description || "").replace(/'/g, "\\'")}\n */`
+    : "";
+
+  return { className, description: tableDescription, imports: [...imports], body: `${
+    generateLiteralSets(literalSets)
+  }  export const Fields = {
 	${fieldDefinitions.join(",\n  ")}
   };
 
@@ -186,26 +733,277 @@ export namespace ${className} {
     ...Fields,
   }) {
     static readonly tableName = "${name}" as const;
+${generateIndexMetadata(table.indexes ?? [])}${generateRelationMetadata(table)}${
+    generatePermissionsMetadata(table, fields)
+  }
   }
 
 	export type Type = Schema.Schema.Type<typeof ${className}>;
 
+  /** Fields accepted when creating a record */
+  export const Create = ${generateStruct(createEntries)};
+
+	export type Create = Schema.Schema.Type<typeof Create>;
+
+  /** Fields accepted by INSERT, the same as for create */
+  export const Insert = Create;
+
+  /** Fields the database sets itself (VALUE, READONLY and computed), left out of update */
+  export const readonlyFields = [${
+    fields
+      .filter((field) => !field.name.includes(".") && isReadonlyField(field))
+      .map((field) => JSON.stringify(rename(field.name)))
+      .join(", ")
+  }] as const;
+
+  /** Fields for UPDATE ... MERGE, all optional down through nested objects */
+  export const Merge = ${generateStruct(mergeEntries)};
+
+	export type Merge = Schema.Schema.Type<typeof Merge>;
+
+  /** UPDATE ... CONTENT replaces the whole record, so it takes the fields of create */
+  export const Content = Create;
+
+  /** JSON Patch operations for UPDATE ... PATCH on the writable field paths */
+  export const Patch = ${generatePatchSchema(patchPaths)};
+
+	export type Patch = Schema.Schema.Type<typeof Patch>;
+
   export const update = Schema.Struct({
-		...Object.fromEntries(
-			Object.entries(Fields).map(([key, schema]) => [
-				key,
-				Schema.optional(schema as Schema.Any),
-			]),
-		),
+		...Merge.fields,
 		id: recordId("${name}"),
-	});
-}`;
-    })
-    .join("\n");
+	});` };
+}
+
+/**
+ * Generate typed callers for DEFINE FUNCTION definitions
+ */
+function generateFunctionCallers(functions: FunctionDefinition[]): string {
+  if (functions.length === 0) return "";
+
+  return `
 
-  return `${imports}\n${tableClasses}`;
+${SURREAL_FUNCTION_HELPER}
+/**
+ * Typed callers for the fn::* functions defined in the schema
+ */
+export namespace fn {
+${generateFunctionCallerExports(functions).join("\n\n")}
+}
+`;
 }
 
+/**
+ * Helper that builds a typed caller for a SurrealDB function
+ */
+const SURREAL_FUNCTION_HELPER = `/**
+ * Create a caller for a SurrealDB function that encodes the arguments and
+ * decodes the result with Effect Schema
+ */
+export const surrealFunction = <
+  Params extends Schema.Struct.Fields,
+  Returns extends Schema.Schema.AnyNoContext,
+>(name: string, parameters: Params, returns: Returns) => {
+  const encode = Schema.encodePromise(
+    Schema.Struct(parameters) as unknown as Schema.Schema<
+      Schema.Struct.Type<Params>,
+      Record<string, unknown>
+    >,
+  );
+  const decode = Schema.decodeUnknownPromise(returns);
+  // Arguments are bound as $p0, $p1, ... to avoid clashing with reserved parameters
+  const keys = Object.keys(parameters);
+  const query = \`RETURN \${name}(\${keys.map((_, i) => \`$p\${i}\`).join(", ")})\`;
+
+  return async (
+    db: Surreal,
+    args: Schema.Struct.Type<Params>,
+  ): Promise<Schema.Schema.Type<Returns>> => {
+    const encoded = await encode(args);
+    const bindings = Object.fromEntries(keys.map((key, i) => [\`p\${i}\`, encoded[key]]));
+    const [result] = await db.query<[unknown]>(query, bindings);
+    return decode(result);
+  };
+};
+`;
+
+/**
+ * Generate an exported caller per DEFINE FUNCTION definition
+ */
+function generateFunctionCallerExports(functions: FunctionDefinition[]): string[] {
+  return functions.map((fn) => {
+    const params = fn.params.map((param) => {
+      const { type, optional } = unwrapOption(param.type);
+      const schema = generateTypeSchema(type);
+      return `      ${param.name}: ${optional ? `Schema.optional(${schema})` : schema},`;
+    });
+    const returns = fn.returns ? generateTypeSchema(fn.returns) : "Schema.Unknown";
+    const description = fn.description
+      ? `  /**\n   * ${fn.description.replace(/\*\//g, "*\\/")}\n   */\n`
+      : "";
+    const name = fn.name.replace(/^fn::/i, "").replace(/::/g, "_");
+
+    return `${description}  export const ${name} = surrealFunction(
+    "${fn.name}",
+    {${params.length > 0 ? `\n${params.join("\n")}\n    ` : ""}},
+    ${returns},
+  );`;
+  });
+}
+
+/**
+ * Generate the static index metadata of a table class
+ */
+function generateIndexMetadata(indexes: IndexDefinition[]): string {
+  const entries = indexes.map((index) => {
+    const properties = [
+      `name: ${JSON.stringify(index.name)}`,
+      `columns: ${JSON.stringify(index.columns)}`,
+      `unique: ${index.unique}`,
+      `kind: ${JSON.stringify(index.kind)}`,
+    ];
+    if (index.analyzer) properties.push(`analyzer: ${JSON.stringify(index.analyzer)}`);
+    if (index.dimension !== undefined) properties.push(`dimension: ${index.dimension}`);
+    if (index.distance) properties.push(`distance: ${JSON.stringify(index.distance)}`);
+    return `      { ${properties.join(", ")} },`;
+  });
+  const uniqueKeys = indexes
+    .filter((index) => index.unique)
+    .map((index) => `      ${JSON.stringify(index.columns)},`);
+
+  const list = (items: string[]) =>
+    items.length > 0 ? `[\n${items.join("\n")}\n    ]` : "[]";
+
+  return `    static readonly indexes = ${list(entries)} as const;
+    static readonly uniqueKeys = ${list(uniqueKeys)} as const;`;
+}
+
+/**
+ * Generate the static edge metadata of a TYPE RELATION table class
+ */
+function generateRelationMetadata(table: TableDefinition): string {
+  if (!table.relation) return "";
+
+  const { in: from, out: to, enforced } = table.relation;
+  return `
+    static readonly relation = { in: ${JSON.stringify(from)}, out: ${JSON.stringify(to)}, enforced: ${enforced} } as const;`;
+}
+
+/**
+ * Generate the static PERMISSIONS metadata of a table class
+ */
+function generatePermissionsMetadata(
+  table: TableDefinition,
+  fields: FieldDefinition[],
+): string {
+  const format = (permissions: PermissionsDefinition) =>
+    `{ ${
+      Object.entries(permissions)
+        .map(([operation, rule]) => `${operation}: ${JSON.stringify(rule)}`)
+        .join(", ")
+    } }`;
+
+  let metadata = "";
+  if (table.permissions) {
+    metadata += `
+    static readonly permissions = ${format(table.permissions)} as const;`;
+  }
+
+  const fieldPermissions = fields
+    .filter((field) => field.permissions)
+    .map((field) =>
+      `      ${JSON.stringify(field.name)}: ${format(field.permissions!)},`
+    );
+  if (fieldPermissions.length > 0) {
+    metadata += `
+    static readonly fieldPermissions = {
+${fieldPermissions.join("\n")}
+    } as const;`;
+  }
+
+  return metadata;
+}
+
+/**
+ * Generate a Schema.Struct from property lines
+ */
+function generateStruct(entries: string[]): string {
+  return entries.length > 0
+    ? `Schema.Struct({\n${entries.join(",\n")}\n  })`
+    : "Schema.Struct({})";
+}
+
+/**
+ * A field path that UPDATE ... PATCH operations may target
+ */
+interface PatchPath extends GeneratedSchema {
+  path: string[];
+}
+
+/**
+ * Generate the schema of a JSON Patch document: `add`, `replace` and `test`
+ * operations carry a value of the field's type, and `remove` is only allowed
+ * for optional fields
+ */
+function generatePatchSchema(paths: PatchPath[]): string {
+  // JSON Pointer escapes `~` and `/` in path segments
+  const pointer = ({ path }: PatchPath) =>
+    JSON.stringify(
+      path.map((segment) => `/${segment.replace(/~/g, "~0").replace(/\//g, "~1")}`)
+        .join(""),
+    );
+
+  const operations = paths.map((path) =>
+    `    Schema.Struct({ op: Schema.Literal("add", "replace", "test"), path: Schema.Literal(${
+      pointer(path)
+    }), value: ${path.schema} })`
+  );
+  const removable = paths.filter((path) => path.optional).map(pointer);
+  if (removable.length > 0) {
+    operations.push(
+      `    Schema.Struct({ op: Schema.Literal("remove"), path: Schema.Literal(${
+        removable.join(", ")
+      }) })`,
+    );
+  }
+
+  // Without writable fields the only valid patch is an empty one
+  if (operations.length === 0) return "Schema.Tuple()";
+  return `Schema.Array(Schema.Union(\n${operations.join(",\n")},\n  ))`;
+}
+
+/**
+ * Annotations for the clauses that decide who writes a field: DEFAULT
+ * ALWAYS, VALUE, READONLY and computed fields
+ */
+function generateWriteAnnotations(field: FieldDefinition): string[] {
+  const escape = (expression: string) =>
+    expression.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+  const annotations: string[] = [];
+
+  if (field.defaultAlways) {
+    annotations.push("surrealDefaultAlways: true");
+  }
+  if (field.value !== undefined) {
+    annotations.push(`surrealValue: '${escape(field.value)}'`);
+  }
+  if (field.computed !== undefined) {
+    annotations.push(`surrealComputed: '${escape(field.computed)}'`);
+  }
+  if (field.readonly) {
+    annotations.push("surrealReadonly: true");
+  }
+
+  return annotations;
+}
+
+/**
+ * Which schema of an object field is generated: the stored record, the
+ * input of create (fields the database sets are left out and DEFAULT
+ * fields are optional) or UPDATE ... MERGE (every field optional)
+ */
+type NestedMode = "record" | "create" | "merge";
+
 /**
  * Generate a nested schema structure for nested fields
  */
@@ -213,9 +1011,14 @@ function generateNestedSchema(
   rootField: any,
   nestedFields: Array<{ path: string[]; field: any }>,
   tables: TableDefinition[],
-): string {
+  mode: NestedMode = "record",
+  rename: (name: string) => string = (name) => name,
+  settingsFor: FieldLookup = () => ({}),
+): GeneratedSchema {
   // Build a tree-like structure of the nested fields
   const fieldTree: Record<string, any> = {};
+  // Leaves are renamed copies; settings are looked up for the originals
+  const originals = new Map<FieldDefinition, FieldDefinition>();
 
   // biome-ignore lint/complexity/noForEach: <explanation>
   nestedFields.forEach(({ path, field }) => {
@@ -228,6 +1031,7 @@ function generateNestedSchema(
         // Leaf node - store the field definition
         const leafField = { ...field };
         leafField.name = segment;
+        originals.set(leafField, field);
         current[segment] = leafField;
       } else {
         // Internal node - create or get the subtree
@@ -239,8 +1043,10 @@ function generateNestedSchema(
     }
   });
 
+  const partial = mode === "merge";
+
   // Generate Schema.struct() for the nested structure
-  function buildSchemaStruct(tree: Record<string, any>): string {
+  function buildSchemaStruct(tree: Record<string, any>, flexible = false): string {
     const fields: string[] = [];
 
     for (const key in tree) {
@@ -249,20 +1055,31 @@ function generateNestedSchema(
       if (typeof tree[key] === "object") {
         if (!tree[key].type) {
           // This is a nested structure
-          fields.push(`    ${key}: ${buildSchemaStruct(tree[key])}`);
-        } else {
+          const struct = buildSchemaStruct(tree[key]);
+          fields.push(`    ${generateEntry(rename(key), key, struct, partial)}`);
+        } else if (mode === "record" || !isReadonlyField(tree[key])) {
           // This is a field definition
-          const fieldDef = generateFieldDefinition(tree[key], tables);
-          fields.push(`    ${key}: ${fieldDef}`);
+          const generated = generateFieldSchema(
+            tree[key],
+            tables,
+            partial,
+            settingsFor(originals.get(tree[key]) ?? tree[key]),
+          );
+          const optional = partial || generated.optional ||
+            (mode === "create" && tree[key].defaultValue !== undefined);
+          fields.push(
+            `    ${generateEntry(rename(key), key, generated.schema, optional)}`,
+          );
         }
       }
     }
 
-    return `Schema.Struct({\n${fields.join(",\n")}\n  })`;
+    const rest = flexible ? `, ${FLEXIBLE_KEYS}` : "";
+    return `Schema.Struct({\n${fields.join(",\n")}\n  }${rest})`;
   }
 
   // Generate the base schema
-  let baseSchema = buildSchemaStruct(fieldTree);
+  let baseSchema = buildSchemaStruct(fieldTree, rootField.flexible);
 
   // Apply annotations if available
   const annotations: string[] = [];
@@ -279,7 +1096,9 @@ function generateNestedSchema(
     let formattedDefaultValue = rootField.defaultValue || "";
 
     if (formattedDefaultValue.includes("::")) {
-      annotations.push(`surrealDefault: '${formattedDefaultValue}'`);
+      annotations.push(
+        `surrealDefault: '${formattedDefaultValue.replace(/'/g, "\\'")}'`,
+      );
     } else {
       if (
         !formattedDefaultValue.startsWith("'") &&
@@ -296,28 +1115,191 @@ function generateNestedSchema(
       annotations.push(`default: ${formattedDefaultValue}`);
     }
   }
+  annotations.push(...generateWriteAnnotations(rootField));
 
   const annotationsStr =
     annotations.length > 0 ? `.annotations({ ${annotations.join(", ")} })` : "";
 
-  // Apply optional if needed
-  let schema = `${baseSchema}${annotationsStr}`;
+  return {
+    schema: `${baseSchema}${annotationsStr}`,
+    optional: Boolean(rootField.optional),
+  };
+}
+
+/**
+ * A generated schema expression and whether its property is optional
+ */
+interface GeneratedSchema {
+  schema: string;
+  optional: boolean;
+}
+
+/**
+ * Generate a Struct entry. When the naming strategy renamed the property,
+ * it is mapped back to the key the database uses.
+ */
+function generateEntry(
+  key: string,
+  wireKey: string,
+  schema: string,
+  optional: boolean,
+): string {
+  const signature = optional ? `Schema.optional(${schema})` : schema;
+  if (key === wireKey) return `${key}: ${signature}`;
+  return `${key}: ${optional ? signature : `Schema.propertySignature(${schema})`}.pipe(Schema.fromKey(${
+    JSON.stringify(wireKey)
+  }))`;
+}
+
+/**
+ * Returns the function that names a table's field properties with the
+ * configured strategy
+ *
+ * @throws Error when two fields of the table would get the same name
+ */
+function fieldRenamer(
+  table: TableDefinition,
+  naming: NamingConfig,
+): (name: string) => string {
+  if (naming.fields !== "camel") return (name) => name;
 
-  if (rootField.optional) {
-    schema = `Schema.optional(${schema})`;
+  const wireKeys = new Map<string, string>();
+  const names = [
+    ...table.fields.flatMap((field) => field.name.split(".")),
+    ...tableFields(table).flatMap((field) => objectTypeKeys(resolveFieldType(field))),
+  ];
+  for (const segment of new Set(names)) {
+    const key = formatPropertyName(segment);
+    const previous = wireKeys.get(key);
+    if (previous !== undefined && previous !== segment) {
+      throw new Error(
+        `Fields ${previous} and ${segment} of table ${table.name} would both be named ${key}`,
+      );
+    }
+    wireKeys.set(key, segment);
   }
+  return formatPropertyName;
+}
 
-  return schema;
+/**
+ * The keys of the object literal types in `type`, including those of array
+ * elements and union variants
+ */
+function objectTypeKeys(type: SurrealType): string[] {
+  switch (type.kind) {
+    case "option":
+      return objectTypeKeys(type.inner);
+    case "union":
+      return type.variants.flatMap(objectTypeKeys);
+    case "array":
+    case "set":
+      return objectTypeKeys(type.element);
+    case "object":
+      return (type.fields ?? []).flatMap((field) => [field.name, ...objectTypeKeys(field.type)]);
+    default:
+      return [];
+  }
 }
 
 /**
- * Generate a field definition for a given field
+ * How the table body generates a field: with an override replacing its
+ * schema, or from the constant holding its allowed literal values, and
+ * how the keys of its object literal types are named
  */
-function generateFieldDefinition(
-  field: any,
-  tables: TableDefinition[],
+interface FieldSettings {
+  override?: SchemaOverride;
+  literals?: string;
+  rename?: (name: string) => string;
+}
+
+type FieldLookup = (field: FieldDefinition) => FieldSettings;
+
+/**
+ * The values a field is limited to, by a union of literal types or by
+ * `ASSERT $value INSIDE [...]` on a string or number field
+ */
+function allowedLiterals(field: FieldDefinition): LiteralValue[] | undefined {
+  const { type } = unwrapOption(resolveFieldType(field));
+  if (type.kind === "union" && type.variants.every((variant) => variant.kind === "literal")) {
+    return type.variants.flatMap((variant) => variant.kind === "literal" ? [variant.value] : []);
+  }
+  if (!field.assert || type.kind !== "scalar") return undefined;
+
+  const kind = type.name === "string"
+    ? "string"
+    : ["int", "float", "number"].includes(type.name)
+    ? "number"
+    : undefined;
+  const oneOf = translateAssert(field.assert).constraints.find((constraint) =>
+    constraint.kind === "oneOf"
+  );
+  return kind && oneOf?.kind === "oneOf" && oneOf.values.every((value) => typeof value === kind)
+    ? oneOf.values
+    : undefined;
+}
+
+/**
+ * Generate the constant array and union type of each field's allowed values
+ */
+function generateLiteralSets(
+  literalSets: Map<string, { field: string; values: LiteralValue[] }>,
 ): string {
+  return [...literalSets].map(([name, { field, values }]) => {
+    const typeName = `${name.charAt(0).toUpperCase()}${name.slice(1, -"Values".length)}Value`;
+    return `  /** Values allowed in ${field} */
+  export const ${name} = [${values.map((value) => JSON.stringify(value)).join(", ")}] as const;
+
+  export type ${typeName} = (typeof ${name})[number];
+
+`;
+  }).join("");
+}
+
+/**
+ * Find the override for a field of `tableName`. A `field` pattern takes
+ * precedence over a `type` match; otherwise the first match wins.
+ */
+function matchOverride(
+  overrides: SchemaOverride[],
+  tableName: string,
+  field: FieldDefinition,
+): SchemaOverride | undefined {
+  const path = `${tableName}.${field.name}`;
+  const byField = overrides.find((override) =>
+    override.field !== undefined &&
+    new RegExp(
+      `^${override.field.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^.]*")}$`,
+    ).test(path)
+  );
+  if (byField) return byField;
+
+  const type = formatSurrealType(unwrapOption(resolveFieldType(field)).type);
+  return overrides.find((override) =>
+    override.field === undefined &&
+    override.type !== undefined &&
+    formatSurrealType(parseSurrealType(override.type)) === type
+  );
+}
+
+/**
+ * Format the import statements needed by overrides, one per line
+ */
+function formatOverrideImports(imports: string[]): string {
+  return [...new Set(imports)].map((line) => `${line}\n`).join("");
+}
+
+/**
+ * Generate the schema of a field. In `partial` mode the fields of object
+ * literal types are all optional, as in UPDATE ... MERGE.
+ */
+function generateFieldSchema(
+  field: FieldDefinition,
+  tables: TableDefinition[],
+  partial = false,
+  { override, literals, rename = (name) => name }: FieldSettings = {},
+): GeneratedSchema {
   const annotations: string[] = [];
+  const { type, optional } = unwrapOption(resolveFieldType(field));
 
   // Add description if available
   if (field.description) {
@@ -331,15 +1313,13 @@ function generateFieldDefinition(
   if (field.defaultValue) {
     let formattedDefaultValue = field.defaultValue || "";
 
-    // Handle SurrealDB function calls (like time::now())
-    if (formattedDefaultValue.includes("::")) {
-      // For datetime fields with SurrealDB functions, we'll add it as a separate annotation
-      if (field.type && field.type.toLowerCase() === "datetime") {
-        annotations.push(`surrealDefault: '${formattedDefaultValue}'`);
-      } else {
-        formattedDefaultValue = `'${formattedDefaultValue}'`;
-        annotations.push(`default: ${formattedDefaultValue}`);
-      }
+    // Handle SurrealDB function calls (like time::now()), and defaults of
+    // overridden fields and SDK value classes, which literals can't type
+    if (formattedDefaultValue.includes("::") || override || decodesToObject(type)) {
+      // The database evaluates these, so they can't be a typed default
+      annotations.push(
+        `surrealDefault: '${formattedDefaultValue.replace(/'/g, "\\'")}'`,
+      );
     } else {
       // If it's a simple string with quotes, keep as is
       // If it's a boolean or number, keep as is
@@ -359,91 +1339,324 @@ function generateFieldDefinition(
       annotations.push(`default: ${formattedDefaultValue}`);
     }
   }
+  annotations.push(...generateWriteAnnotations(field));
+  // An override replaces the type, so its ASSERT is only kept as metadata
+  const assertion = field.assert && !override
+    ? generateAssertFilters(type, field.assert, literals !== undefined)
+    : { filters: [], required: false, unsupported: field.assert ? [field.assert] : [] };
+
+  // Keep whatever could not become a filter so it is not silently lost
+  if (assertion.unsupported.length > 0) {
+    const escapedAssert = assertion.unsupported
+      .join(" AND ")
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "\\'");
+    annotations.push(`surrealAssert: '${escapedAssert}'`);
+  }
 
   // Build annotations string
   const annotationsStr =
     annotations.length > 0 ? `.annotations({ ${annotations.join(", ")} })` : "";
 
-  let effectType: string;
-  const fieldType = field.type ? field.type.toLowerCase() : "string";
-
-  switch (fieldType) {
-    case "int":
-    case "number":
-      effectType = `Schema.Number${annotationsStr}`;
-      break;
-    case "float":
-      effectType = `Schema.Number${annotationsStr}`;
-      break;
-    case "bool":
-      effectType = `Schema.Boolean${annotationsStr}`;
-      break;
-    case "datetime":
-      effectType = `Schema.DateFromSelf${annotationsStr}`;
-      break;
-    case "array":
-      effectType = `Schema.Array(Schema.Unknown)${annotationsStr}`;
-      break;
-    case "array<float>":
-    case "array<number>":
-      effectType = `Schema.Array(Schema.Number)${annotationsStr}`;
-      break;
-    case "array<int>":
-      effectType = `Schema.Array(Schema.Number.pipe(Schema.int()))${annotationsStr}`;
-      break;
-    case "array<bool>":
-      effectType = `Schema.Array(Schema.Boolean)${annotationsStr}`;
-      break;
-    case "array<datetime>":
-      effectType = `Schema.Array(Schema.DateFromSelf)${annotationsStr}`;
-      break;
-    case "array<object>":
-      effectType = `Schema.Array(Schema.Unknown)${annotationsStr}`;
-      break;
-    case "array<record>":
-      if (field.reference?.table) {
-        const refTableClassName = formatClassName(field.reference.table);
-        // effectType = `Schema.Array(Schema.Union(recordId("${field.reference.table}"), Schema.suspend((): Schema.Schema<${refTableClassName}> => ${refTableClassName})))${annotationsStr}`;
-        effectType = `Schema.Array(recordId("${field.reference.table}"))${annotationsStr}`;
-      } else {
-        effectType = `Schema.Array(Schema.instanceOf(RecordId))${annotationsStr}`;
+  const filtersStr =
+    assertion.filters.length > 0 ? `.pipe(${assertion.filters.join(", ")})` : "";
+  const typeSchema = override
+    ? override.schema
+    : literals
+    ? `Schema.Literal(...${literals})`
+    : type.kind === "object" && type.fields &&
+      (field.flexible || partial)
+    ? `Schema.Struct({ ${generateStructFields(type.fields, partial, rename).join(", ")} }${
+      field.flexible ? `, ${FLEXIBLE_KEYS}` : ""
+    })`
+    : generateTypeSchema(type, rename);
+
+  return {
+    schema: `${typeSchema}${filtersStr}${annotationsStr}`,
+    // `ASSERT $value != NONE` makes an option<...> field required in practice
+    optional: optional && !assertion.required,
+  };
+}
+
+/**
+ * Translate an ASSERT expression into Effect Schema filters for `type`
+ *
+ * Constraints that do not apply to the field's type (e.g. a length check on
+ * a number) are reported as unsupported rather than generated. With
+ * `literals` the field's schema already limits it to the INSIDE values.
+ */
+function generateAssertFilters(
+  type: SurrealType,
+  assert: string,
+  literals = false,
+): { filters: string[]; required: boolean; unsupported: string[] } {
+  const { constraints, unsupported } = translateAssert(assert);
+  const filters: string[] = [];
+  let required = false;
+
+  // `number` values may be decimals, which neither kind of filter checks
+  const base = type.kind === "scalar"
+    ? ["int", "float"].includes(type.name)
+      ? "number"
+      : type.name === "number"
+      ? "number | decimal"
+      : type.name
+    : type.kind === "set"
+    ? "array"
+    : type.kind;
+
+  for (const constraint of constraints) {
+    if (constraint.kind === "required") {
+      required = true;
+      continue;
+    }
+    // Already enforced by the Schema.Literal of the allowed values
+    if (constraint.kind === "oneOf" && literals) continue;
+    const filter = generateConstraintFilter(constraint, base);
+    if (filter) {
+      filters.push(filter);
+    } else {
+      unsupported.push(formatConstraint(constraint));
+    }
+  }
+
+  return { filters, required, unsupported };
+}
+
+/**
+ * Whether values of `type` decode to objects of the SDK or Effect rather
+ * than to literals
+ */
+function decodesToObject(type: SurrealType): boolean {
+  return type.kind === "geometry" || type.kind === "range" ||
+    (type.kind === "scalar" && ["decimal", "duration", "bytes"].includes(type.name));
+}
+
+/**
+ * Base types that may decode to objects, which can't be compared with
+ * literals
+ */
+const OBJECT_VALUE_BASES = ["decimal", "number | decimal", "duration", "bytes", "geometry", "range"];
+
+/**
+ * Generate a single Effect Schema filter, or undefined when the constraint
+ * does not fit the base type
+ */
+function generateConstraintFilter(
+  constraint: Exclude<Constraint, { kind: "required" }>,
+  base: string,
+): string | undefined {
+  switch (constraint.kind) {
+    case "format":
+      return base === "string"
+        ? `Schema.pattern(/${FORMAT_PATTERNS[constraint.format]}/)`
+        : undefined;
+    case "pattern":
+      return base === "string"
+        ? `Schema.pattern(/${constraint.source}/${constraint.flags})`
+        : undefined;
+    case "compare": {
+      const filter = {
+        ">": "greaterThan",
+        ">=": "greaterThanOrEqualTo",
+        "<": "lessThan",
+        "<=": "lessThanOrEqualTo",
+      }[constraint.operator];
+      if (base === "decimal") {
+        return `Schema.${filter}BigDecimal(BigDecimal.unsafeFromString("${constraint.value}"))`;
       }
-      break;
-    case "array<string>":
-      effectType = `Schema.Array(Schema.String)${annotationsStr}`;
-      break;
-    case "object":
-      effectType = `Schema.Unknown${annotationsStr}`;
-      break;
-    case "record":
-      if (field.reference?.table) {
-        const refTableClassName = formatClassName(field.reference.table);
-        // effectType = `Schema.Union(recordId("${field.reference.table}"), Schema.suspend((): Schema.Schema<${refTableClassName}> => ${refTableClassName}))${annotationsStr}`;
-        effectType = `recordId("${field.reference.table}")${annotationsStr}`;
-      } else {
-        if (field.name === "source") {
-          console.log("field.reference", JSON.stringify(field, null, 2));
-        }
-        effectType = `Schema.instanceOf(RecordId)${annotationsStr}`;
+      return base === "number" ? `Schema.${filter}(${constraint.value})` : undefined;
+    }
+    case "length": {
+      if (base !== constraint.of) return undefined;
+      const [min, max, exact] = constraint.of === "string"
+        ? ["minLength", "maxLength", "length"]
+        : ["minItems", "maxItems", "itemsCount"];
+      switch (constraint.operator) {
+        case ">":
+          return `Schema.${min}(${constraint.value + 1})`;
+        case ">=":
+          return `Schema.${min}(${constraint.value})`;
+        case "<":
+          return `Schema.${max}(${constraint.value - 1})`;
+        case "<=":
+          return `Schema.${max}(${constraint.value})`;
+        case "=":
+          return `Schema.${exact}(${constraint.value})`;
       }
-      break;
-    case "references":
-      if (field.reference?.table) {
-        const refTableClassName = formatClassName(field.reference.table);
-        // effectType = `Schema.Array(Schema.Union(recordId("${field.reference.table}"), Schema.suspend((): Schema.Schema<${refTableClassName}> => ${refTableClassName})))${annotationsStr}`;
-        effectType = `Schema.Array(recordId("${field.reference.table}"))`;
-      } else {
-        effectType = `stringRecordIdSchema${annotationsStr}`;
+      return undefined;
+    }
+    case "equals":
+      if (OBJECT_VALUE_BASES.includes(base)) return undefined;
+      return `Schema.filter((value) => value === ${JSON.stringify(constraint.value)})`;
+    case "notEquals":
+      if (OBJECT_VALUE_BASES.includes(base)) return undefined;
+      return `Schema.filter((value) => value !== ${JSON.stringify(constraint.value)})`;
+    case "oneOf":
+      if (OBJECT_VALUE_BASES.includes(base)) return undefined;
+      return `Schema.filter((value) => (${JSON.stringify(constraint.values)} as unknown[]).includes(value))`;
+  }
+}
+
+/**
+ * Format a constraint back into SurrealQL for the `surrealAssert` annotation
+ */
+function formatConstraint(constraint: Constraint): string {
+  switch (constraint.kind) {
+    case "format":
+      return `string::is::${constraint.format}($value)`;
+    case "pattern":
+      return `$value = /${constraint.source}/${constraint.flags}`;
+    case "compare":
+      return `$value ${constraint.operator} ${constraint.value}`;
+    case "length":
+      return `${constraint.of}::len($value) ${constraint.operator} ${constraint.value}`;
+    case "equals":
+      return `$value = ${JSON.stringify(constraint.value)}`;
+    case "notEquals":
+      return `$value != ${JSON.stringify(constraint.value)}`;
+    case "oneOf":
+      return `$value INSIDE ${JSON.stringify(constraint.values)}`;
+    case "required":
+      return "$value != NONE";
+  }
+}
+
+/**
+ * Generate the Effect schema expression for a SurrealQL type, naming the
+ * keys of object literal types with `rename`
+ */
+function generateTypeSchema(
+  type: SurrealType,
+  rename: (name: string) => string = (name) => name,
+): string {
+  switch (type.kind) {
+    case "any":
+      return "Schema.Any";
+    case "scalar":
+      switch (type.name) {
+        case "string":
+          return "Schema.String";
+        case "int":
+          return "Schema.Number.pipe(Schema.int())";
+        case "float":
+          return "Schema.Number";
+        case "decimal":
+          return "surrealDecimal";
+        case "number":
+          // Numbers keep their kind, so decimals come back as Decimal
+          return "Schema.Union(Schema.Number, surrealDecimal)";
+        case "bool":
+          return "Schema.Boolean";
+        case "datetime":
+          // The SDK decodes datetimes into Date
+          return "Schema.DateFromSelf";
+        case "duration":
+          return "surrealDuration";
+        case "uuid":
+          return "surrealUuid";
+        case "bytes":
+          return "surrealBytes";
+        case "null":
+          return "Schema.Null";
+        case "none":
+          return "Schema.Undefined";
+        default:
+          return "Schema.Any";
       }
-      break;
+    case "option":
+      // Nested NONE values decode to undefined
+      return `Schema.UndefinedOr(${generateTypeSchema(type.inner, rename)})`;
+    case "union":
+      return `Schema.Union(${
+        type.variants.map((variant) => generateTypeSchema(variant, rename)).join(", ")
+      })`;
+    case "literal":
+      return `Schema.Literal(${JSON.stringify(type.value)})`;
+    case "array":
+    case "set": {
+      const schema = `Schema.Array(${generateTypeSchema(type.element, rename)})`;
+      return type.maxLength === undefined
+        ? schema
+        : `${schema}.pipe(Schema.maxItems(${type.maxLength}))`;
+    }
+    case "record":
+      return generateRecordSchema(type.tables);
+    case "references":
+      return `Schema.Array(${generateRecordSchema(type.tables)})`;
+    case "object":
+      if (!type.fields) return "Schema.Unknown";
+      return `Schema.Struct({ ${generateStructFields(type.fields, false, rename).join(", ")} })`;
+    case "geometry":
+      return `surrealGeometry(${generateGeoJsonSchema(type.subtypes)})`;
+    case "range":
+      return "surrealRange";
     default:
-      effectType = `Schema.Any${annotationsStr}`;
-      break;
+      return "Schema.Any";
   }
+}
 
-  if (field.optional) {
-    effectType = `Schema.optional(${effectType})`;
-  }
+/**
+ * GeoJSON schemas for the subtypes of `geometry<...>`
+ */
+const GEOJSON_SCHEMAS: Record<GeometryTypeName, string> = {
+  point: "GeoJsonPoint",
+  line: "GeoJsonLineString",
+  polygon: "GeoJsonPolygon",
+  multipoint: "GeoJsonMultiPoint",
+  multiline: "GeoJsonMultiLineString",
+  multipolygon: "GeoJsonMultiPolygon",
+  collection: "GeoJsonGeometryCollection",
+  feature: "GeoJson",
+};
 
-  return effectType;
+/**
+ * Generate the GeoJSON schema a geometry with the given subtypes decodes to
+ */
+function generateGeoJsonSchema(subtypes: GeometryTypeName[]): string {
+  const schemas = [...new Set(subtypes.map((subtype) => GEOJSON_SCHEMAS[subtype]))];
+  if (schemas.length === 0 || schemas.includes("GeoJson")) return "GeoJson";
+  return schemas.length === 1 ? schemas[0] : `Schema.Union(${schemas.join(", ")})`;
+}
+
+/**
+ * Index signature added to the Struct of a FLEXIBLE object field, which
+ * keeps keys beyond the declared ones
+ */
+const FLEXIBLE_KEYS = "Schema.Record({ key: Schema.String, value: Schema.Unknown })";
+
+/**
+ * Generate the Struct entries for the fields of an object literal type. In
+ * `partial` mode every field is optional, down through nested objects.
+ */
+function generateStructFields(
+  fields: ObjectTypeField[],
+  partial = false,
+  rename: (name: string) => string = (name) => name,
+): string[] {
+  return fields.map((field) => {
+    const { type: fieldType, optional } = unwrapOption(field.type);
+    const schema = partial && fieldType.kind === "object" && fieldType.fields
+      ? `Schema.Struct({ ${generateStructFields(fieldType.fields, true, rename).join(", ")} })`
+      : generateTypeSchema(fieldType, rename);
+    const name = rename(field.name);
+    const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+    if (name !== field.name) {
+      return generateEntry(key, field.name, schema, optional || partial);
+    }
+    return `${key}: ${optional || partial ? `Schema.optional(${schema})` : schema}`;
+  });
+}
+
+/**
+ * Generate the schema for a record id pointing at one of `tables`
+ */
+function generateRecordSchema(tables: string[]): string {
+  if (tables.length === 0) {
+    return "Schema.instanceOf(RecordId)";
+  }
+  if (tables.length === 1) {
+    return `recordId("${tables[0]}")`;
+  }
+  return `Schema.Union(${tables.map((table) => `recordId("${table}")`).join(", ")})`;
 }
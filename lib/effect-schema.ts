@@ -1,6 +1,7 @@
 // Effect Schema integration for SurrealDB types
 import { Schema } from "effect";
-import type { TableDefinition } from "./schema.ts";
+import { type SurrealType, unwrapOption } from "./parser/index.ts";
+import { resolveFieldType, type TableDefinition } from "./schema.ts";
 
 // Brand for RecordId type
 type RecordId<T extends string = string> = string & {
@@ -49,78 +50,116 @@ export function mapSurrealTypeToEffectSchema(
 	isOption = false,
 	reference?: { table: string; isOption: boolean },
 ): Schema.Schema<unknown> {
-	let schema: Schema.Schema<unknown>;
+	const { type: surrealType } = unwrapOption(
+		resolveFieldType({ type, optional: false, reference }),
+	);
+	const schema = surrealTypeToEffectSchema(surrealType);
 
-	switch (type) {
-		case "string":
-			schema = Schema.String as unknown as Schema.Schema<unknown>;
-			break;
-		case "number":
-		case "float":
-		case "decimal":
-			schema = Schema.Number as unknown as Schema.Schema<unknown>;
-			break;
-		case "int":
-		case "integer":
-			schema = Schema.Number.pipe(
-				Schema.int(),
-			) as unknown as Schema.Schema<unknown>;
+	// Apply optional wrapper if needed
+	if (isOption) {
+		return Schema.optional(schema) as unknown as Schema.Schema<unknown>;
+	}
+
+	return schema;
+}
+
+/**
+ * Maps a SurrealQL type IR to an Effect Schema
+ * @param type The parsed SurrealQL type
+ * @returns An Effect Schema schema for the type
+ */
+export function surrealTypeToEffectSchema(
+	type: SurrealType,
+): Schema.Schema<unknown> {
+	let schema: Schema.Schema.AnyNoContext;
+
+	switch (type.kind) {
+		case "scalar":
+			switch (type.name) {
+				case "string":
+					schema = Schema.String;
+					break;
+				case "number":
+				case "float":
+				case "decimal":
+					schema = Schema.Number;
+					break;
+				case "int":
+					schema = Schema.Number.pipe(Schema.int());
+					break;
+				case "bool":
+					schema = Schema.Boolean;
+					break;
+				case "datetime":
+					schema = Schema.Date;
+					break;
+				case "null":
+					schema = Schema.Null;
+					break;
+				case "none":
+					schema = Schema.Undefined;
+					break;
+				default:
+					schema = Schema.Unknown;
+			}
 			break;
-		case "bool":
-		case "boolean":
-			schema = Schema.Boolean as unknown as Schema.Schema<unknown>;
+		case "option":
+			schema = Schema.UndefinedOr(surrealTypeToEffectSchema(type.inner));
 			break;
-		case "datetime":
-			schema = Schema.Date as unknown as Schema.Schema<unknown>;
+		case "union":
+			schema = Schema.Union(...type.variants.map(surrealTypeToEffectSchema));
 			break;
-		case "record":
-			if (reference) {
-				schema = recordId(reference.table) as unknown as Schema.Schema<unknown>;
-			} else {
-				schema = Schema.String.pipe(
-					Schema.pattern(/^[a-zA-Z0-9_-]+:[a-zA-Z0-9_-]+$/),
-				) as unknown as Schema.Schema<unknown>;
-			}
+		case "literal":
+			schema = Schema.Literal(type.value);
 			break;
 		case "array":
-			schema = Schema.Array(
-				Schema.Unknown,
-			) as unknown as Schema.Schema<unknown>;
-			break;
-		case "array_record":
-			if (reference) {
-				schema = Schema.Array(
-					recordId(reference.table),
-				) as unknown as Schema.Schema<unknown>;
-			} else {
-				schema = Schema.Array(
-					Schema.String.pipe(Schema.pattern(/^[a-zA-Z0-9_-]+:[a-zA-Z0-9_-]+$/)),
-				) as unknown as Schema.Schema<unknown>;
+		case "set":
+			schema = Schema.Array(surrealTypeToEffectSchema(type.element));
+			if (type.maxLength !== undefined) {
+				schema = schema.pipe(Schema.maxItems(type.maxLength));
 			}
 			break;
-		case "array_float":
-			schema = Schema.Array(Schema.Number) as unknown as Schema.Schema<unknown>;
+		case "record":
+			schema = recordSchema(type.tables);
 			break;
-		case "array_string":
-			schema = Schema.Array(Schema.String) as unknown as Schema.Schema<unknown>;
+		case "references":
+			schema = Schema.Array(recordSchema(type.tables));
 			break;
 		case "object":
-			schema = Schema.Record({
-				key: Schema.String,
-				value: Schema.Unknown,
-			}) as unknown as Schema.Schema<unknown>;
+			if (!type.fields) {
+				schema = Schema.Record({ key: Schema.String, value: Schema.Unknown });
+				break;
+			}
+			schema = Schema.Struct(
+				Object.fromEntries(
+					type.fields.map((field) => {
+						const { type: fieldType, optional } = unwrapOption(field.type);
+						const fieldSchema = surrealTypeToEffectSchema(fieldType);
+						return [
+							field.name,
+							optional ? Schema.optional(fieldSchema) : fieldSchema,
+						];
+					}),
+				),
+			);
 			break;
 		default:
 			schema = Schema.Unknown;
-			break;
 	}
 
-	// Apply optional wrapper if needed
-	if (isOption) {
-		return Schema.optional(schema) as unknown as Schema.Schema<unknown>;
-	}
+	return schema as Schema.Schema<unknown>;
+}
 
-	return schema;
+/**
+ * Schema for a record ID pointing at one of the given tables
+ */
+function recordSchema(tables: string[]): Schema.Schema.AnyNoContext {
+	if (tables.length === 0) {
+		return Schema.String.pipe(
+			Schema.pattern(/^[a-zA-Z0-9_-]+:[a-zA-Z0-9_-]+$/),
+		);
+	}
+	return Schema.Union(...tables.map((table) => recordId(table)));
 }
 
 /**
@@ -140,84 +179,3 @@ export function formatTypeName(tableName: string): string {
 export function formatSchemaName(tableName: string): string {
 	return `${tableName}Schema`;
 }
-
-/**
- * Parse a SurrealDB type string into components
- * @param type The type string from SurrealDB schema
- * @returns Object containing baseType, isOption flag, and optional reference information
- */
-export function parseType(type: string): {
-	baseType: string;
-	isOption: boolean;
-	reference?: { table: string; isOption: boolean };
-	constraints?: string[];
-} {
-	let isOption = false;
-	let baseType = type;
-	let reference: { table: string; isOption: boolean } | undefined;
-	let constraints: string[] = [];
-
-	// Remove any REFERENCE or other keywords that might appear after the type
-	baseType = baseType.replace(/\s+REFERENCE.*$/i, "");
-
-	// Remove trailing semicolons if present
-	baseType = baseType.replace(/;$/, "");
-
-	// Handle option types
-	if (baseType.startsWith("option<")) {
-		isOption = true;
-		baseType = baseType.slice(7, -1);
-	}
-
-	// Handle record references
-	if (baseType.startsWith("record<")) {
-		const tableName = baseType.slice(7, -1);
-		reference = {
-			table: tableName,
-			isOption: isOption,
-		};
-		baseType = "record";
-	}
-
-	// Handle references arrays
-	if (baseType.startsWith("references<")) {
-		const tableName = baseType.slice(11, -1);
-		reference = {
-			table: tableName,
-			isOption: isOption,
-		};
-		baseType = "references";
-	}
-
-	// Handle array types
-	if (baseType.startsWith("array<")) {
-		const innerType = baseType.slice(6, -1);
-		if (innerType.startsWith("record<")) {
-			const tableName = innerType.slice(7, -1);
-			reference = {
-				table: tableName,
-				isOption: false,
-			};
-			baseType = "array_record";
-		} else if (innerType === "float") {
-			baseType = "array_float";
-		} else if (innerType === "string") {
-			baseType = "array_string";
-		} else {
-			baseType = "array";
-		}
-	}
-
-	// Extract constraints from the type string
-	const constraintMatch = baseType.match(/\((.+)\)$/);
-	if (constraintMatch) {
-		// Remove the constraints from the base type
-		baseType = baseType.replace(/\((.+)\)$/, "");
-
-		// Parse the constraints
-		const constraintStr = constraintMatch[1];
-		constraints = constraintStr.split(",").map((c) => c.trim());
-	}
-
-	return { baseType, isOption, reference, constraints };
-}
@@ -0,0 +1,280 @@
+import { dirname, isAbsolute, join } from "@std/path";
+
+import { TIMESTAMP_LINE } from "./banner.ts";
+import {
+	type Config,
+	generateImports,
+	type OutputConfig,
+	type SchemaSystem,
+} from "./config.ts";
+import type { FunctionDefinition, TableDefinition } from "./schema.ts";
+import { generateEffectModules, generateEffectSchemas } from "./effect-schema-class.ts";
+import { generateJsonSchemaBundle, generateJsonSchemaDocuments } from "./json-schema.ts";
+import { generateTypeBoxSchemas } from "./typebox-schema.ts";
+import { generateTypeScriptTypes } from "./typescript-types.ts";
+import { generateZodSchemas } from "./zod-schema.ts";
+
+/**
+ * The parsed schema handed to generators
+ */
+export interface SchemaModel {
+	tables: TableDefinition[];
+	/** `fn::*` functions */
+	functions: FunctionDefinition[];
+}
+
+/**
+ * A file produced by a generator
+ */
+export interface GeneratedFile {
+	/** Path relative to the output directory, or an absolute path */
+	path: string;
+	content: string;
+}
+
+/**
+ * An output backend
+ *
+ * Generators listed under `generators` in surql-gen.config.ts run after the
+ * built-in output, in the same pass and on the same model:
+ *
+ * ```typescript
+ * const docs: Generator = {
+ *   name: "docs",
+ *   generate: ({ tables }) => [{
+ *     path: "tables.md",
+ *     content: tables.map((table) => `- ${table.name}`).join("\n"),
+ *   }],
+ * };
+ * ```
+ */
+export interface Generator {
+	/** Name shown in progress and error messages */
+	name: string;
+	generate(
+		model: SchemaModel,
+		config: Config,
+	): GeneratedFile[] | Promise<GeneratedFile[]>;
+}
+
+/**
+ * Options for a built-in generator, overriding the `output` and
+ * `imports.schemaSystem` configuration. Its files are written to the output
+ * directory.
+ */
+export interface SchemaGeneratorOptions extends Partial<Omit<OutputConfig, "path">> {
+	schemaSystem?: SchemaSystem;
+}
+
+/**
+ * Create a generator for one of the built-in backends, e.g. to write Zod
+ * schemas next to the main Effect output:
+ *
+ * ```typescript
+ * generators: [schemaGenerator({ schemaSystem: "zod", filename: "schema.zod" })]
+ * ```
+ *
+ * @param options - Output settings that differ from the configuration
+ * @returns The generator
+ */
+export function schemaGenerator(options: SchemaGeneratorOptions = {}): Generator {
+	const { schemaSystem, ...output } = options;
+	return {
+		name: schemaSystem ?? "schema",
+		generate: (model, config) => {
+			const generatorConfig: Config = {
+				...config,
+				output: { ...config.output, ...output },
+				imports: {
+					...config.imports,
+					schemaSystem: schemaSystem ?? config.imports.schemaSystem,
+				},
+			};
+			const { filename, extension } = generatorConfig.output;
+			return generateOutputFiles(generatorConfig, model, `${filename}.${extension}`);
+		},
+	};
+}
+
+/**
+ * Generate the built-in output and then run the configured generators
+ *
+ * @param config - The configuration
+ * @param model - The parsed schema
+ * @param targetFile - Path of the built-in output file; generator paths are
+ * relative to its directory
+ * @returns Every file to write
+ */
+export async function runGenerators(
+	config: Config,
+	model: SchemaModel,
+	targetFile: string,
+): Promise<GeneratedFile[]> {
+	const files = await generateOutputFiles(config, model, targetFile);
+	const writtenBy = new Map(files.map((file) => [file.path, "the built-in output"]));
+
+	for (const generator of config.generators ?? []) {
+		let generated: GeneratedFile[];
+		try {
+			generated = await generator.generate(model, config);
+		} catch (error) {
+			throw new Error(
+				`Generator ${generator.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+
+		for (const file of generated) {
+			const path = isAbsolute(file.path) ? file.path : join(dirname(targetFile), file.path);
+			const previous = writtenBy.get(path);
+			if (previous) {
+				throw new Error(`Generator ${generator.name} writes ${path}, which ${previous} also writes`);
+			}
+			writtenBy.set(path, `generator ${generator.name}`);
+			files.push({ path, content: file.content });
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Generate the output files for the configured schema system and format them
+ */
+async function generateOutputFiles(
+	config: Config,
+	model: SchemaModel,
+	targetFile: string,
+): Promise<GeneratedFile[]> {
+	const files = generateUnformattedFiles(config, model, targetFile);
+	return await Promise.all(files.map(async ({ path, content }) => ({
+		path,
+		content: await formatOutput(content, config.output.header),
+	})));
+}
+
+/**
+ * Make generated content consistent: no trailing whitespace, a single final
+ * newline, and with the `hash` header the banner's date replaced by a hash
+ * of the rest of the file
+ */
+async function formatOutput(
+	content: string,
+	header: OutputConfig["header"] = "timestamp",
+): Promise<string> {
+	const formatted = content.replace(/[ \t]+$/gm, "").replace(/\n*$/, "\n");
+	if (header !== "hash" || !TIMESTAMP_LINE.test(formatted)) {
+		return formatted;
+	}
+
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(formatted.replace(TIMESTAMP_LINE, "")),
+	);
+	const hash = Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+	return formatted.replace(TIMESTAMP_LINE, ` * Hash: sha256-${hash}`);
+}
+
+/**
+ * Whether a file on disk has the same content as newly generated output,
+ * ignoring the generation time in the banner
+ *
+ * @param existing - Content of the file on disk
+ * @param generated - Content that would be written
+ * @returns True if writing `generated` would not change anything else
+ */
+export function isUpToDate(existing: string, generated: string): boolean {
+	return existing.replace(TIMESTAMP_LINE, "") === generated.replace(TIMESTAMP_LINE, "");
+}
+
+/**
+ * Generate the output files for the configured schema system: a single
+ * `targetFile`, or with `output.perTable` one file per table in the same
+ * directory (Effect modules with `targetFile` as their index, or JSON Schema
+ * documents)
+ */
+function generateUnformattedFiles(
+	config: Config,
+	model: SchemaModel,
+	targetFile: string,
+): GeneratedFile[] {
+	const { extension, perTable } = config.output;
+	if (perTable && (config.imports.schemaSystem ?? "effect") === "effect" && extension !== "d.ts") {
+		const { index, modules } = generateEffectModules(model.tables, model.functions, {
+			extension,
+			importExtension: config.imports.style === "deno" ? `.${extension}` : ".js",
+			naming: config.naming,
+			overrides: config.overrides,
+		});
+		return [
+			{ path: targetFile, content: index },
+			...Object.entries(modules).map(([name, content]) => ({
+				path: join(dirname(targetFile), name),
+				content,
+			})),
+		];
+	}
+	if (perTable && config.imports.schemaSystem === "json-schema") {
+		return Object.entries(generateJsonSchemaDocuments(model.tables)).map(
+			([table, document]) => ({
+				path: join(dirname(targetFile), `${table}.schema.json`),
+				content: `${JSON.stringify(document, null, 2)}\n`,
+			}),
+		);
+	}
+
+	// Combine custom imports with schema output
+	const importPlaceholder =
+		'import { Schema } from "@effect/schema";\nimport { pipe } from "effect/Function";\nimport type { RecordId } from "surrealdb";';
+	const output = generateSchemas(config, model).replace(
+		importPlaceholder,
+		generateImports(config),
+	);
+	return [{ path: targetFile, content: output }];
+}
+
+/**
+ * Generate schemas with the backend selected by `imports.schemaSystem`, or
+ * plain type declarations for a `.d.ts` output file
+ */
+function generateSchemas(config: Config, { tables, functions }: SchemaModel): string {
+	if (config.output.extension === "d.ts") {
+		return generateTypeScriptTypes(tables);
+	}
+	switch (config.imports.schemaSystem) {
+		case "zod":
+			return generateZodSchemas(tables);
+		case "typebox":
+			return generateTypeBoxSchemas(tables);
+		case "json-schema":
+			return `${JSON.stringify(generateJsonSchemaBundle(tables), null, 2)}\n`;
+		default:
+			return generateEffectSchemas(tables, functions, {
+				naming: config.naming,
+				overrides: config.overrides,
+			});
+	}
+}
+
+/**
+ * Display name of the configured schema system for progress messages
+ *
+ * @param config - The configuration
+ * @returns The name, e.g. "Effect Schema"
+ */
+export function schemaSystemName(config: Config): string {
+	if (config.output.extension === "d.ts") {
+		return "TypeScript";
+	}
+	switch (config.imports.schemaSystem) {
+		case "zod":
+			return "Zod";
+		case "typebox":
+			return "TypeBox";
+		case "json-schema":
+			return "JSON Schema";
+		default:
+			return "Effect Schema";
+	}
+}
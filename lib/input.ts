@@ -0,0 +1,62 @@
+import { expandGlob, walk } from "@std/fs";
+import { isGlob, relative, resolve } from "@std/path";
+
+/**
+ * Resolve input sources to a list of .surql files
+ *
+ * Each input may be a file, a directory (searched recursively for .surql
+ * files) or a glob such as `schema/**\/*.surql`. Files are returned relative
+ * to the working directory without duplicates, in the order of the inputs and
+ * sorted within a directory or glob so that the merged schema does not depend
+ * on the file system order.
+ *
+ * @param inputs - Files, directories and globs
+ * @returns Paths of the .surql files to read
+ * @throws Error when an input does not exist or matches no files
+ */
+export async function resolveInputFiles(inputs: string[]): Promise<string[]> {
+	const files: string[] = [];
+
+	for (const input of inputs) {
+		const matches: string[] = [];
+
+		if (isGlob(input)) {
+			for await (const entry of expandGlob(input)) {
+				if (entry.isFile) matches.push(entry.path);
+			}
+		} else {
+			let stat: Deno.FileInfo;
+			try {
+				stat = await Deno.stat(input);
+			} catch {
+				throw new Error(`Input ${input} does not exist`);
+			}
+
+			if (stat.isDirectory) {
+				for await (const entry of walk(input, { exts: [".surql"], includeDirs: false })) {
+					matches.push(entry.path);
+				}
+			} else {
+				matches.push(input);
+			}
+		}
+
+		if (matches.length === 0) {
+			throw new Error(`No .surql files found for ${input}`);
+		}
+
+		for (const file of matches.map(normalizePath).sort()) {
+			if (!files.includes(file)) files.push(file);
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Make a path relative to the working directory, so that the same file given
+ * as a path and matched by a glob is only read once
+ */
+function normalizePath(path: string): string {
+	return relative(Deno.cwd(), resolve(path));
+}
@@ -0,0 +1,249 @@
+import { jsonSchemaKeywords, translateAssert } from "./constraints.ts";
+import {
+  type ObjectTypeField,
+  type SurrealType,
+  unwrapOption,
+} from "./parser/index.ts";
+import {
+  type FieldNode,
+  fieldTree,
+  formatDefaultLiteral,
+  formatSchemaName,
+  isReadonlyField,
+  resolveFieldType,
+  type TableDefinition,
+  tableFields,
+} from "./schema.ts";
+
+/**
+ * A JSON Schema document or subschema
+ */
+export type JsonSchema = Record<string, unknown>;
+
+const DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Returns the `$ref` to the record id schema of a table
+ */
+type RecordIdRef = (table: string) => string;
+
+/**
+ * Generate one JSON Schema (draft 2020-12) document per table, keyed by
+ * table name
+ *
+ * Each document has `$id` `<table>.schema.json` and defines its record id
+ * as `$defs.id`, so record links are `$ref`s into the linked table's
+ * document, e.g. `post.schema.json#/$defs/id`.
+ *
+ * @param tables - The table definitions
+ * @returns The documents, keyed by table name
+ */
+export function generateJsonSchemaDocuments(
+  tables: TableDefinition[],
+): Record<string, JsonSchema> {
+  const ref: RecordIdRef = (table) => `${table}.schema.json#/$defs/id`;
+  return Object.fromEntries(tables.map((table) => [table.name, {
+    $schema: DIALECT,
+    $id: `${table.name}.schema.json`,
+    ...generateTableSchema(table, ref),
+    $defs: { id: generateRecordIdSchema(table.name) },
+  }]));
+}
+
+/**
+ * Generate a single JSON Schema (draft 2020-12) document with every table
+ * under `$defs`, e.g. `#/$defs/User` with its record id at `#/$defs/UserId`
+ *
+ * @param tables - The table definitions
+ * @returns The bundled document
+ */
+export function generateJsonSchemaBundle(tables: TableDefinition[]): JsonSchema {
+  const ref: RecordIdRef = (table) => `#/$defs/${formatSchemaName(table)}Id`;
+  const $defs: JsonSchema = {};
+  for (const table of tables) {
+    const name = formatSchemaName(table.name);
+    $defs[name] = generateTableSchema(table, ref);
+    $defs[`${name}Id`] = generateRecordIdSchema(table.name);
+  }
+  return { $schema: DIALECT, $defs };
+}
+
+/**
+ * Generate the object schema of a table's records
+ */
+function generateTableSchema(table: TableDefinition, ref: RecordIdRef): JsonSchema {
+  const nodes = fieldTree(tableFields(table));
+  const properties: JsonSchema = {};
+  const required: string[] = [];
+
+  if (!nodes.some((node) => node.name === "id")) {
+    properties.id = { $ref: ref(table.name) };
+    required.push("id");
+  }
+  for (const node of nodes) {
+    const { schema, optional } = generateNodeSchema(node, ref);
+    properties[node.name] = schema;
+    if (!optional) required.push(node.name);
+  }
+
+  return {
+    title: formatSchemaName(table.name),
+    ...(table.description ? { description: table.description } : {}),
+    type: "object",
+    properties,
+    required,
+  };
+}
+
+/**
+ * Generate the schema of a field node and whether the field may be left out
+ */
+function generateNodeSchema(
+  node: FieldNode,
+  ref: RecordIdRef,
+): { schema: JsonSchema; optional: boolean } {
+  const field = node.field;
+  // Paths without a definition of their own are optional objects
+  const { type, optional } = field
+    ? unwrapOption(resolveFieldType(field))
+    : { type: { kind: "object" } as SurrealType, optional: true };
+
+  let schema: JsonSchema;
+  if (node.children.length > 0) {
+    const properties: JsonSchema = {};
+    const required: string[] = [];
+    for (const child of node.children) {
+      const generated = generateNodeSchema(child, ref);
+      properties[child.name] = generated.schema;
+      if (!generated.optional) required.push(child.name);
+    }
+    schema = { type: "object", properties, required };
+  } else {
+    schema = generateTypeSchema(type, ref);
+  }
+
+  if (!field) return { schema, optional };
+
+  const { constraints, unsupported } = field.assert
+    ? translateAssert(field.assert)
+    : { constraints: [], unsupported: [] };
+  const base = typeof schema.type === "string" ? schema.type : type.kind;
+  let checkedByDatabase = unsupported.length > 0;
+  for (const constraint of constraints) {
+    if (constraint.kind === "required") continue;
+    const keywords = jsonSchemaKeywords(constraint, base);
+    if (keywords) {
+      Object.assign(schema, keywords);
+    } else {
+      checkedByDatabase = true;
+    }
+  }
+  // Keep the ASSERT when part of it has no JSON Schema equivalent
+  if (field.assert && checkedByDatabase) {
+    schema.$comment = `ASSERT ${field.assert}`;
+  }
+  if (field.description) {
+    schema.description = field.description;
+  }
+  const defaultValue = field.defaultValue !== undefined
+    ? formatDefaultLiteral(field.defaultValue)
+    : undefined;
+  if (defaultValue !== undefined) {
+    schema.default = JSON.parse(defaultValue);
+  }
+  if (isReadonlyField(field)) {
+    schema.readOnly = true;
+  }
+
+  return {
+    schema,
+    optional: optional &&
+      !constraints.some((constraint) => constraint.kind === "required"),
+  };
+}
+
+/**
+ * JSON Schema types for the scalar types; others accept any value
+ */
+const SCALAR_SCHEMAS: Record<string, JsonSchema> = {
+  string: { type: "string" },
+  int: { type: "integer" },
+  float: { type: "number" },
+  decimal: { type: "number" },
+  number: { type: "number" },
+  bool: { type: "boolean" },
+  datetime: { type: "string", format: "date-time" },
+  null: { type: "null" },
+};
+
+/**
+ * Generate the schema for a SurrealQL type
+ */
+function generateTypeSchema(type: SurrealType, ref: RecordIdRef): JsonSchema {
+  switch (type.kind) {
+    case "scalar":
+      return { ...SCALAR_SCHEMAS[type.name] };
+    case "option":
+      // NONE values are left out of JSON
+      return generateTypeSchema(type.inner, ref);
+    case "union":
+      if (type.variants.every((variant) => variant.kind === "literal")) {
+        return {
+          enum: type.variants.flatMap((variant) => variant.kind === "literal" ? [variant.value] : []),
+        };
+      }
+      return { anyOf: type.variants.map((variant) => generateTypeSchema(variant, ref)) };
+    case "literal":
+      return { const: type.value };
+    case "array":
+    case "set":
+      return {
+        type: "array",
+        items: generateTypeSchema(type.element, ref),
+        ...(type.kind === "set" ? { uniqueItems: true } : {}),
+        ...(type.maxLength === undefined ? {} : { maxItems: type.maxLength }),
+      };
+    case "record":
+      return generateRecordSchema(type.tables, ref);
+    case "references":
+      return { type: "array", items: generateRecordSchema(type.tables, ref) };
+    case "object":
+      if (!type.fields) return { type: "object" };
+      return generateObjectSchema(type.fields, ref);
+    default:
+      return {};
+  }
+}
+
+/**
+ * Generate the schema for an object literal type
+ */
+function generateObjectSchema(fields: ObjectTypeField[], ref: RecordIdRef): JsonSchema {
+  const properties: JsonSchema = {};
+  const required: string[] = [];
+  for (const field of fields) {
+    const { type, optional } = unwrapOption(field.type);
+    properties[field.name] = generateTypeSchema(type, ref);
+    if (!optional) required.push(field.name);
+  }
+  return { type: "object", properties, required };
+}
+
+/**
+ * Generate the schema for a record id pointing at one of `tables`
+ */
+function generateRecordSchema(tables: string[], ref: RecordIdRef): JsonSchema {
+  if (tables.length === 0) return { type: "string" };
+  if (tables.length === 1) return { $ref: ref(tables[0]) };
+  return { anyOf: tables.map((table) => ({ $ref: ref(table) })) };
+}
+
+/**
+ * Generate the schema of a table's `table:id` record id strings
+ */
+function generateRecordIdSchema(table: string): JsonSchema {
+  return {
+    type: "string",
+    pattern: `^${table.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}:.+$`,
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * AST node definitions for SurrealQL schema statements
+ */
+import type { Span, Token } from "./lexer.ts";
+
+/**
+ * A SurrealQL expression kept as source text, e.g. a DEFAULT or ASSERT value
+ */
+export interface Expression {
+	/** Source text of the expression */
+	text: string;
+	tokens: Token[];
+	span: Span;
+}
+
+/**
+ * A clause of a DEFINE statement, e.g. `TYPE string` or `COMMENT "..."`
+ */
+export interface Clause {
+	/** Upper-cased clause keyword(s), e.g. "TYPE" or "DEFAULT ALWAYS" */
+	keyword: string;
+	value?: Expression;
+	span: Span;
+}
+
+export type PermissionOperation = "select" | "create" | "update" | "delete";
+
+/**
+ * A permission from a PERMISSIONS clause: `true` for FULL, `false` for NONE,
+ * otherwise the WHERE condition
+ */
+export type PermissionRule = boolean | Expression;
+
+/**
+ * Permissions per operation, only for the operations the clause mentions
+ */
+export type PermissionRules = Partial<Record<PermissionOperation, PermissionRule>>;
+
+interface BaseStatement {
+	/** Source text of the whole statement, without the trailing semicolon */
+	text: string;
+	span: Span;
+	/** Own-line comments directly above the statement, closest last */
+	leadingComments: string[];
+	/** Path of the file the statement was read from, when known */
+	file?: string;
+}
+
+interface BaseDefineStatement extends BaseStatement {
+	overwrite: boolean;
+	ifNotExists: boolean;
+	comment?: string;
+	clauses: Clause[];
+}
+
+export interface DefineTableStatement extends BaseDefineStatement {
+	kind: "DefineTable";
+	name: string;
+	schemaMode?: "schemafull" | "schemaless";
+	/** Table type from the TYPE clause */
+	tableType?: "any" | "normal" | "relation";
+	/** Edge endpoints of a TYPE RELATION table */
+	relation?: {
+		in: string[];
+		out: string[];
+		enforced: boolean;
+	};
+	permissions?: PermissionRules;
+}
+
+export interface DefineFieldStatement extends BaseDefineStatement {
+	kind: "DefineField";
+	/** Field path, e.g. `name`, `address.city` or `items[*].price` */
+	name: string;
+	table: string;
+	/** Source text of the TYPE clause */
+	type?: string;
+	flexible: boolean;
+	default?: Expression;
+	defaultAlways: boolean;
+	value?: Expression;
+	/** Expression of a COMPUTED clause or a `VALUE <future> { ... }` */
+	computed?: Expression;
+	assert?: Expression;
+	readonly: boolean;
+	permissions?: PermissionRules;
+}
+
+export interface DefineIndexStatement extends BaseDefineStatement {
+	kind: "DefineIndex";
+	name: string;
+	table: string;
+	/** Indexed field paths from the FIELDS / COLUMNS clause */
+	columns: string[];
+	unique: boolean;
+	/** Set for SEARCH (full-text) indexes */
+	search?: {
+		analyzer?: string;
+		bm25: boolean;
+		highlights: boolean;
+	};
+	/** Set for MTREE and HNSW vector indexes */
+	vector?: {
+		algorithm: "mtree" | "hnsw";
+		dimension?: number;
+		distance?: string;
+		/** Element type of the vectors, e.g. F32 */
+		vectorType?: string;
+	};
+	/** True for COUNT indexes */
+	count: boolean;
+}
+
+export interface FunctionParameter {
+	/** Parameter name without the leading `$` */
+	name: string;
+	/** Source text of the parameter type */
+	type: string;
+}
+
+export interface DefineFunctionStatement extends BaseDefineStatement {
+	kind: "DefineFunction";
+	/** Full function name, e.g. `fn::greet` */
+	name: string;
+	params: FunctionParameter[];
+	/** Source text of the declared return type, from `-> type` */
+	returnType?: string;
+	/** The function body including its braces */
+	body?: Expression;
+	/** Who may call the function */
+	permissions?: PermissionRule;
+}
+
+/**
+ * `ALTER TABLE`, which changes only the properties its clauses mention
+ */
+export interface AlterTableStatement extends
+	BaseStatement,
+	Pick<
+		DefineTableStatement,
+		"name" | "comment" | "clauses" | "schemaMode" | "tableType" | "relation" | "permissions"
+	> {
+	kind: "AlterTable";
+	ifExists: boolean;
+}
+
+/**
+ * `REMOVE TABLE`, `REMOVE FIELD`, `REMOVE INDEX` or `REMOVE FUNCTION`
+ */
+export interface RemoveStatement extends BaseStatement {
+	kind: "Remove";
+	target: "table" | "field" | "index" | "function";
+	/** Name of the removed definition, e.g. a field path or `fn::greet` */
+	name: string;
+	/** Table of a removed field or index */
+	table?: string;
+	ifExists: boolean;
+}
+
+/**
+ * Any statement the schema parser does not model (yet)
+ */
+export interface OtherStatement extends BaseStatement {
+	kind: "Other";
+	/** Leading keywords, e.g. "DEFINE EVENT" or "REMOVE TABLE" */
+	keyword: string;
+}
+
+export type Statement =
+	| DefineTableStatement
+	| DefineFieldStatement
+	| DefineIndexStatement
+	| DefineFunctionStatement
+	| AlterTableStatement
+	| RemoveStatement
+	| OtherStatement;
+
+export interface ParseError {
+	message: string;
+	span: Span;
+}
+
+export interface ParseResult {
+	statements: Statement[];
+	errors: ParseError[];
+}
@@ -0,0 +1,29 @@
+/**
+ * SurrealQL parser module - turns .surql source into a typed statement AST
+ *
+ * This module exports:
+ * - The tokenizer with source positions
+ * - The statement parser and AST node types
+ * - The recursive SurrealType IR with its parser and formatter
+ */
+
+// Re-export all AST node types
+export * from "./ast.ts";
+
+// Export tokenizer
+export {
+	tokenize,
+	type Comment,
+	type LexError,
+	type LexResult,
+	type Position,
+	type Span,
+	type Token,
+	type TokenKind,
+} from "./lexer.ts";
+
+// Export statement parser
+export { joinTypeTokens, parseStatements } from "./parser.ts";
+
+// Export type IR
+export * from "./types.ts";
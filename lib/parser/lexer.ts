@@ -0,0 +1,393 @@
+/**
+ * SurrealQL tokenizer
+ *
+ * Turns a .surql source string into a flat list of tokens with source
+ * positions. Comments are kept out of the token stream and returned
+ * separately so the parser can attach them to statements as descriptions.
+ */
+
+/**
+ * A position in the source text (line and column are 1-based)
+ */
+export interface Position {
+	offset: number;
+	line: number;
+	column: number;
+}
+
+/**
+ * A range in the source text, `end` is exclusive
+ */
+export interface Span {
+	start: Position;
+	end: Position;
+}
+
+export type TokenKind =
+	| "ident"
+	| "param"
+	| "number"
+	| "duration"
+	| "string"
+	| "regex"
+	| "punct"
+	| "eof";
+
+export interface Token {
+	kind: TokenKind;
+	/** Raw source text of the token */
+	text: string;
+	/** Unescaped value for strings and quoted identifiers */
+	value: string;
+	span: Span;
+}
+
+export interface Comment {
+	/** Comment text without the comment markers */
+	text: string;
+	span: Span;
+	/** True when nothing but whitespace precedes the comment on its line */
+	ownLine: boolean;
+}
+
+export interface LexError {
+	message: string;
+	span: Span;
+}
+
+export interface LexResult {
+	tokens: Token[];
+	comments: Comment[];
+	errors: LexError[];
+}
+
+/**
+ * Multi-character punctuation, longest first so that the lexer is greedy
+ */
+const PUNCTUATION = [
+	"<->",
+	"...",
+	"::",
+	"->",
+	"<-",
+	"<=",
+	">=",
+	"!=",
+	"==",
+	"?=",
+	"*=",
+	"!~",
+	"?~",
+	"*~",
+	"??",
+	"?:",
+	"&&",
+	"||",
+	"+=",
+	"-=",
+	"..",
+	"**",
+];
+
+const SINGLE_PUNCTUATION = "()[]{}<>;,.:|=+-*/%!?@&~^";
+
+const DURATION =
+	/^(?:[0-9]+(?:ns|us|µs|ms|s|m|h|d|w|y))+(?![A-Za-z0-9_])/;
+
+const NUMBER = /^[0-9][0-9_]*(?:\.[0-9][0-9_]*)?(?:[eE][-+]?[0-9]+)?(?:dec|f)?(?![A-Za-z0-9_])|^[0-9][0-9_]*/;
+
+/**
+ * Tokenize SurrealQL source text
+ *
+ * @param source - The SurrealQL content
+ * @returns Tokens (terminated by an `eof` token), comments and lexing errors
+ */
+export function tokenize(source: string): LexResult {
+	const tokens: Token[] = [];
+	const comments: Comment[] = [];
+	const errors: LexError[] = [];
+
+	let offset = 0;
+	let line = 1;
+	let column = 1;
+	// Whether only whitespace has been seen since the last newline
+	let lineStart = true;
+
+	const position = (): Position => ({ offset, line, column });
+
+	const advance = (count = 1) => {
+		for (let i = 0; i < count && offset < source.length; i++) {
+			if (source[offset] === "\n") {
+				line++;
+				column = 1;
+				lineStart = true;
+			} else {
+				column++;
+			}
+			offset++;
+		}
+	};
+
+	const push = (kind: TokenKind, start: Position, value?: string) => {
+		const text = source.slice(start.offset, offset);
+		tokens.push({
+			kind,
+			text,
+			value: value ?? text,
+			span: { start, end: position() },
+		});
+		lineStart = false;
+	};
+
+	while (offset < source.length) {
+		const char = source[offset];
+		const next = source[offset + 1];
+
+		// Whitespace
+		if (/\s/.test(char)) {
+			advance();
+			continue;
+		}
+
+		// Line comments: --, // and #
+		if (
+			(char === "-" && next === "-") ||
+			(char === "/" && next === "/") ||
+			char === "#"
+		) {
+			const start = position();
+			const ownLine = lineStart;
+			const markerLength = char === "#" ? 1 : 2;
+			while (offset < source.length && source[offset] !== "\n") {
+				advance();
+			}
+			comments.push({
+				text: source.slice(start.offset + markerLength, offset).trim(),
+				span: { start, end: position() },
+				ownLine,
+			});
+			continue;
+		}
+
+		// Block comments
+		if (char === "/" && next === "*") {
+			const start = position();
+			const ownLine = lineStart;
+			advance(2);
+			while (
+				offset < source.length &&
+				!(source[offset] === "*" && source[offset + 1] === "/")
+			) {
+				advance();
+			}
+			if (offset >= source.length) {
+				errors.push({
+					message: "Unterminated block comment",
+					span: { start, end: position() },
+				});
+			} else {
+				advance(2);
+			}
+			const body = source.slice(start.offset + 2, offset).replace(/\*\/$/, "");
+			comments.push({
+				text: body
+					.split("\n")
+					.map((part) => part.replace(/^\s*\*?\s?/, "").trim())
+					.filter(Boolean)
+					.join(" "),
+				span: { start, end: position() },
+				ownLine,
+			});
+			continue;
+		}
+
+		// Strings, including prefixed strings like r"table:id" or d"2024-01-01"
+		if (
+			char === '"' ||
+			char === "'" ||
+			(/[rdusb]/.test(char) &&
+				(next === '"' || next === "'") &&
+				!/[A-Za-z0-9_]/.test(source[offset - 1] ?? ""))
+		) {
+			const start = position();
+			if (char !== '"' && char !== "'") {
+				advance();
+			}
+			const quote = source[offset];
+			advance();
+			let value = "";
+			let terminated = false;
+			while (offset < source.length) {
+				const current = source[offset];
+				if (current === "\\") {
+					value += unescape(source[offset + 1] ?? "");
+					advance(2);
+					continue;
+				}
+				if (current === quote) {
+					advance();
+					terminated = true;
+					break;
+				}
+				value += current;
+				advance();
+			}
+			if (!terminated) {
+				errors.push({
+					message: "Unterminated string literal",
+					span: { start, end: position() },
+				});
+			}
+			push("string", start, value);
+			continue;
+		}
+
+		// Regex literals, e.g. /^[a-z]+$/i, where an operand is expected
+		if (char === "/" && !endsOperand(tokens[tokens.length - 1])) {
+			const end = findRegexEnd(source, offset);
+			if (end !== -1) {
+				const start = position();
+				advance(end - offset);
+				push("regex", start);
+				continue;
+			}
+		}
+
+		// Backtick or angle-bracket quoted identifiers
+		if (char === "`" || char === "⟨") {
+			const start = position();
+			const close = char === "`" ? "`" : "⟩";
+			advance();
+			let value = "";
+			while (offset < source.length && source[offset] !== close) {
+				value += source[offset];
+				advance();
+			}
+			if (offset >= source.length) {
+				errors.push({
+					message: "Unterminated quoted identifier",
+					span: { start, end: position() },
+				});
+			} else {
+				advance();
+			}
+			push("ident", start, value);
+			continue;
+		}
+
+		// Parameters
+		if (char === "$") {
+			const start = position();
+			advance();
+			while (offset < source.length && /[A-Za-z0-9_]/.test(source[offset])) {
+				advance();
+			}
+			push("param", start, source.slice(start.offset + 1, offset));
+			continue;
+		}
+
+		// Numbers and durations
+		if (/[0-9]/.test(char)) {
+			const start = position();
+			const rest = source.slice(offset);
+			const duration = rest.match(DURATION);
+			if (duration) {
+				advance(duration[0].length);
+				push("duration", start);
+				continue;
+			}
+			const number = rest.match(NUMBER);
+			advance(number ? number[0].length : 1);
+			push("number", start);
+			continue;
+		}
+
+		// Identifiers and keywords
+		if (/[A-Za-z_]/.test(char)) {
+			const start = position();
+			while (offset < source.length && /[A-Za-z0-9_]/.test(source[offset])) {
+				advance();
+			}
+			push("ident", start);
+			continue;
+		}
+
+		// Punctuation
+		const start = position();
+		const multi = PUNCTUATION.find((p) => source.startsWith(p, offset));
+		if (multi) {
+			advance(multi.length);
+			push("punct", start);
+			continue;
+		}
+		if (SINGLE_PUNCTUATION.includes(char)) {
+			advance();
+			push("punct", start);
+			continue;
+		}
+
+		advance();
+		errors.push({
+			message: `Unexpected character '${char}'`,
+			span: { start, end: position() },
+		});
+	}
+
+	const end = position();
+	tokens.push({ kind: "eof", text: "", value: "", span: { start: end, end } });
+
+	return { tokens, comments, errors };
+}
+
+/**
+ * Whether a token can end an operand, in which case a following `/` is a
+ * division rather than the start of a regex literal
+ */
+function endsOperand(token: Token | undefined): boolean {
+	if (!token) return false;
+	if (token.kind === "punct") return ")]}".includes(token.text);
+	return token.kind !== "ident" || !/^(AND|OR|NOT|RETURN|WHERE|THEN|ELSE|IF)$/i.test(token.text);
+}
+
+/**
+ * Find the end offset (exclusive, including flags) of a regex literal that
+ * starts at `offset`, or -1 when the line holds no closing slash
+ */
+function findRegexEnd(source: string, offset: number): number {
+	let i = offset + 1;
+	let inClass = false;
+	while (i < source.length && source[i] !== "\n") {
+		const char = source[i];
+		if (char === "\\") {
+			i += 2;
+			continue;
+		}
+		if (char === "[") inClass = true;
+		if (char === "]") inClass = false;
+		if (char === "/" && !inClass) {
+			i++;
+			while (i < source.length && /[a-z]/.test(source[i])) i++;
+			return i;
+		}
+		i++;
+	}
+	return -1;
+}
+
+/**
+ * Resolve a single escaped character inside a string literal
+ */
+function unescape(char: string): string {
+	switch (char) {
+		case "n":
+			return "\n";
+		case "t":
+			return "\t";
+		case "r":
+			return "\r";
+		case "0":
+			return "\0";
+		default:
+			return char;
+	}
+}
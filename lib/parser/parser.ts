@@ -0,0 +1,1050 @@
+/**
+ * SurrealQL statement parser
+ *
+ * Splits a whole .surql file into statements and turns the schema
+ * definitions we care about into typed AST nodes. Statements that are not
+ * modelled are kept as `Other` nodes so that nothing is silently lost.
+ */
+import { type Comment, type Span, type Token, tokenize } from "./lexer.ts";
+import type {
+	AlterTableStatement,
+	Clause,
+	DefineFieldStatement,
+	DefineFunctionStatement,
+	DefineIndexStatement,
+	DefineTableStatement,
+	Expression,
+	OtherStatement,
+	ParseError,
+	ParseResult,
+	PermissionOperation,
+	PermissionRule,
+	PermissionRules,
+	RemoveStatement,
+	Statement,
+} from "./ast.ts";
+
+const TABLE_CLAUSES = new Set([
+	"DROP",
+	"SCHEMAFULL",
+	"SCHEMALESS",
+	"TYPE",
+	"AS",
+	"CHANGEFEED",
+	"PERMISSIONS",
+	"COMMENT",
+]);
+
+const FIELD_CLAUSES = new Set([
+	"FLEXIBLE",
+	"TYPE",
+	"DEFAULT",
+	"VALUE",
+	"ASSERT",
+	"READONLY",
+	"PERMISSIONS",
+	"COMMENT",
+	"REFERENCE",
+	"COMPUTED",
+]);
+
+const INDEX_CLAUSES = new Set([
+	"FIELDS",
+	"COLUMNS",
+	"UNIQUE",
+	"SEARCH",
+	"MTREE",
+	"HNSW",
+	"COUNT",
+	"COMMENT",
+	"CONCURRENTLY",
+]);
+
+const FUNCTION_CLAUSES = new Set(["COMMENT", "PERMISSIONS"]);
+
+const PERMISSION_OPERATIONS: PermissionOperation[] = [
+	"select",
+	"create",
+	"update",
+	"delete",
+];
+
+/**
+ * Tokens after which an identifier is an operand rather than a clause keyword
+ */
+const OPERAND_PREFIXES = new Set([
+	".",
+	"::",
+	"->",
+	"<-",
+	"<->",
+	"=",
+	"==",
+	"!=",
+	"?=",
+	"*=",
+	"<=",
+	">=",
+	"+",
+	"-",
+	"*",
+	"/",
+	",",
+	"<",
+	"|",
+	"&&",
+	"||",
+	"AND",
+	"OR",
+	"NOT",
+	"IS",
+	"WHERE",
+	"CONTAINS",
+	"INSIDE",
+	"IN",
+	"OUT",
+	"FROM",
+	"TO",
+]);
+
+/**
+ * Tokens before which an identifier is an operand rather than a clause keyword
+ */
+const OPERAND_SUFFIXES = new Set([
+	"::",
+	".",
+	"=",
+	"==",
+	"!=",
+	"?=",
+	"*=",
+	"<=",
+	">=",
+	">",
+	"|",
+	",",
+	":",
+	")",
+	"]",
+	"}",
+]);
+
+/**
+ * Parse SurrealQL source into a list of statements
+ *
+ * @param source - The SurrealQL content
+ * @param file - Path of the source, recorded on every statement
+ * @returns The parsed statements and any syntax errors encountered
+ */
+export function parseStatements(source: string, file?: string): ParseResult {
+	const { tokens, comments, errors: lexErrors } = tokenize(source);
+	const errors: ParseError[] = lexErrors.map((error) => ({ ...error }));
+	const statements: Statement[] = [];
+
+	let depth = 0;
+	let current: Token[] = [];
+	let previousEnd = 0;
+
+	const flush = () => {
+		if (current.length > 0) {
+			const parser = new StatementParser(source, current, errors);
+			const statement = parser.parse();
+			statement.leadingComments = leadingComments(
+				comments,
+				previousEnd,
+				statement.span,
+			);
+			if (file !== undefined) statement.file = file;
+			statements.push(statement);
+			previousEnd = statement.span.end.offset;
+		}
+		current = [];
+	};
+
+	for (const token of tokens) {
+		if (token.kind === "eof") break;
+
+		if (token.kind === "punct") {
+			if (token.text === ";" && depth === 0) {
+				flush();
+				previousEnd = token.span.end.offset;
+				continue;
+			}
+			if ("([{".includes(token.text)) depth++;
+			if (")]}".includes(token.text)) {
+				depth--;
+				if (depth < 0) {
+					errors.push({
+						message: `Unexpected '${token.text}'`,
+						span: token.span,
+					});
+					depth = 0;
+				}
+			}
+		}
+
+		current.push(token);
+	}
+
+	if (depth > 0 && current.length > 0) {
+		errors.push({
+			message: "Unclosed bracket at end of statement",
+			span: spanOf(current),
+		});
+	}
+	flush();
+
+	return { statements, errors };
+}
+
+/**
+ * Collect the block of own-line comments directly above a statement
+ */
+function leadingComments(
+	comments: Comment[],
+	after: number,
+	span: Span,
+): string[] {
+	const candidates = comments.filter(
+		(comment) =>
+			comment.ownLine &&
+			comment.span.start.offset >= after &&
+			comment.span.end.offset <= span.start.offset,
+	);
+
+	const block: string[] = [];
+	let expectedLine = span.start.line - 1;
+	for (let i = candidates.length - 1; i >= 0; i--) {
+		const comment = candidates[i];
+		if (comment.span.end.line !== expectedLine) break;
+		if (comment.text) {
+			block.unshift(comment.text);
+		}
+		expectedLine = comment.span.start.line - 1;
+	}
+
+	return block;
+}
+
+function spanOf(tokens: Token[]): Span {
+	return {
+		start: tokens[0].span.start,
+		end: tokens[tokens.length - 1].span.end,
+	};
+}
+
+/**
+ * Join type tokens back into a normalized type string, e.g. `option<string>`
+ */
+export function joinTypeTokens(tokens: Token[]): string {
+	let text = "";
+	for (const token of tokens) {
+		if (token.text === "|") {
+			text += " | ";
+		} else if (token.text === ",") {
+			text += ", ";
+		} else if (token.text === ":") {
+			text += ": ";
+		} else if (token.text === "{") {
+			text += text ? " { " : "{ ";
+		} else if (token.text === "}") {
+			text += " }";
+		} else {
+			text += token.text;
+		}
+	}
+	return text;
+}
+
+/**
+ * Parses the tokens of a single statement
+ */
+class StatementParser {
+	private position = 0;
+
+	constructor(
+		private readonly source: string,
+		private readonly tokens: Token[],
+		private readonly errors: ParseError[],
+	) {}
+
+	parse(): Statement {
+		const keyword = this.keywordAt(0);
+
+		if (keyword === "DEFINE") {
+			const kind = this.keywordAt(1);
+			if (kind === "TABLE") return this.parseDefineTable();
+			if (kind === "FIELD") return this.parseDefineField();
+			if (kind === "INDEX") return this.parseDefineIndex();
+			if (kind === "FUNCTION") return this.parseDefineFunction();
+		}
+
+		if (keyword === "ALTER" && this.keywordAt(1) === "TABLE") {
+			return this.parseAlterTable();
+		}
+
+		if (keyword === "REMOVE") {
+			const kind = this.keywordAt(1);
+			if (kind === "TABLE" || kind === "FIELD" || kind === "INDEX" || kind === "FUNCTION") {
+				return this.parseRemove(kind.toLowerCase() as RemoveStatement["target"]);
+			}
+		}
+
+		return this.other();
+	}
+
+	private parseDefineTable(): Statement {
+		this.position = 2;
+		const { overwrite, ifNotExists } = this.parseDefineModifiers();
+
+		const nameToken = this.next();
+		if (!nameToken || nameToken.kind !== "ident") {
+			return this.fail("Expected a table name after DEFINE TABLE");
+		}
+
+		const clauses = this.parseClauses(TABLE_CLAUSES);
+		const statement: DefineTableStatement = {
+			kind: "DefineTable",
+			name: nameToken.value,
+			overwrite,
+			ifNotExists,
+			clauses,
+			...this.base(),
+		};
+
+		this.applyTableClauses(statement);
+		return statement;
+	}
+
+	private parseAlterTable(): Statement {
+		this.position = 2;
+		const ifExists = this.parseIfExists();
+
+		const nameToken = this.next();
+		if (!nameToken || nameToken.kind !== "ident") {
+			return this.fail("Expected a table name after ALTER TABLE");
+		}
+
+		const statement: AlterTableStatement = {
+			kind: "AlterTable",
+			name: nameToken.value,
+			ifExists,
+			clauses: this.parseClauses(TABLE_CLAUSES),
+			...this.base(),
+		};
+
+		this.applyTableClauses(statement);
+		return statement;
+	}
+
+	/**
+	 * Set the table properties from the clauses of DEFINE or ALTER TABLE
+	 */
+	private applyTableClauses(
+		statement: DefineTableStatement | AlterTableStatement,
+	): void {
+		for (const clause of statement.clauses) {
+			if (clause.keyword === "SCHEMAFULL") statement.schemaMode = "schemafull";
+			if (clause.keyword === "SCHEMALESS") statement.schemaMode = "schemaless";
+			if (clause.keyword === "COMMENT") statement.comment = stringValue(clause);
+			if (clause.keyword === "TYPE") this.parseTableType(statement, clause);
+			if (clause.keyword === "PERMISSIONS") {
+				statement.permissions = this.parsePermissions(clause);
+			}
+		}
+	}
+
+	/**
+	 * Parse `REMOVE <kind> [IF EXISTS] name [ON [TABLE] table]`
+	 */
+	private parseRemove(target: RemoveStatement["target"]): Statement {
+		this.position = 2;
+		const ifExists = this.parseIfExists();
+
+		// Field paths and function names span several tokens
+		const nameTokens: Token[] = [];
+		while (
+			this.peek() &&
+			this.keywordAt(this.position) !== "ON" &&
+			this.peek()?.text !== "("
+		) {
+			nameTokens.push(this.next() as Token);
+		}
+		if (nameTokens.length === 0) {
+			return this.fail(`Expected a name after REMOVE ${target.toUpperCase()}`);
+		}
+
+		const statement: RemoveStatement = {
+			kind: "Remove",
+			target,
+			name: nameTokens.map((token) => token.value).join(""),
+			ifExists,
+			...this.base(),
+		};
+
+		if (target === "field" || target === "index") {
+			if (this.keywordAt(this.position) !== "ON") {
+				return this.fail(`Expected ON <table> after the ${target} name`);
+			}
+			this.position++; // ON
+			if (this.keywordAt(this.position) === "TABLE") {
+				this.position++;
+			}
+			const tableToken = this.next();
+			if (!tableToken || tableToken.kind !== "ident") {
+				return this.fail("Expected a table name after ON");
+			}
+			statement.table = tableToken.value;
+		}
+
+		return statement;
+	}
+
+	/**
+	 * Parse the IF EXISTS modifier after ALTER / REMOVE <kind>
+	 */
+	private parseIfExists(): boolean {
+		if (
+			this.keywordAt(this.position) === "IF" &&
+			this.keywordAt(this.position + 1) === "EXISTS"
+		) {
+			this.position += 2;
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Parse `TYPE ANY | NORMAL | RELATION [IN|FROM a | b] [OUT|TO c] [ENFORCED]`
+	 */
+	private parseTableType(
+		statement: Pick<DefineTableStatement, "tableType" | "relation">,
+		clause: Clause,
+	): void {
+		const tokens = clause.value?.tokens ?? [];
+		const kind = tokens[0]?.value.toLowerCase();
+		if (kind !== "any" && kind !== "normal" && kind !== "relation") {
+			this.error("Expected ANY, NORMAL or RELATION after TYPE", clause.span);
+			return;
+		}
+		statement.tableType = kind;
+		if (kind !== "relation") return;
+
+		const relation = { in: [] as string[], out: [] as string[], enforced: false };
+		let target: string[] | undefined;
+		for (const token of tokens.slice(1)) {
+			const keyword = token.kind === "ident" ? token.value.toUpperCase() : "";
+			if (keyword === "IN" || keyword === "FROM") {
+				target = relation.in;
+			} else if (keyword === "OUT" || keyword === "TO") {
+				target = relation.out;
+			} else if (keyword === "ENFORCED") {
+				relation.enforced = true;
+			} else if (token.kind === "ident" && target) {
+				target.push(token.value);
+			} else if (token.text !== "|") {
+				this.error(`Unexpected '${token.text}' in TYPE RELATION`, token.span);
+			}
+		}
+		statement.relation = relation;
+	}
+
+	/**
+	 * Parse `PERMISSIONS NONE | FULL | FOR select, update WHERE ... FOR ...`
+	 */
+	private parsePermissions(clause: Clause): PermissionRules {
+		const tokens = clause.value?.tokens ?? [];
+		const keyword = (index: number) =>
+			tokens[index]?.kind === "ident" ? tokens[index].value.toUpperCase() : undefined;
+
+		if (tokens.length === 1 && (keyword(0) === "FULL" || keyword(0) === "NONE")) {
+			const allowed = keyword(0) === "FULL";
+			return { select: allowed, create: allowed, update: allowed, delete: allowed };
+		}
+
+		const permissions: PermissionRules = {};
+		let i = 0;
+		while (i < tokens.length) {
+			// INFO FOR output separates the FOR groups with commas
+			if (tokens[i].text === ",") {
+				i++;
+				continue;
+			}
+			if (keyword(i) !== "FOR") {
+				this.error(`Expected FOR in PERMISSIONS, found '${tokens[i].text}'`, tokens[i].span);
+				break;
+			}
+			i++;
+
+			const operations: PermissionOperation[] = [];
+			while (i < tokens.length && !["FULL", "NONE", "WHERE"].includes(keyword(i) ?? "")) {
+				const operation = tokens[i].value.toLowerCase();
+				if (PERMISSION_OPERATIONS.includes(operation as PermissionOperation)) {
+					operations.push(operation as PermissionOperation);
+				} else if (tokens[i].text !== ",") {
+					this.error(`Unknown permission '${tokens[i].text}'`, tokens[i].span);
+				}
+				i++;
+			}
+
+			const rule = keyword(i);
+			if (!rule) {
+				this.error("Expected FULL, NONE or WHERE in PERMISSIONS", clause.span);
+				break;
+			}
+			i++;
+
+			let value: PermissionRule = rule === "FULL";
+			if (rule === "WHERE") {
+				// The condition runs up to the next top-level FOR
+				const start = i;
+				let depth = 0;
+				for (; i < tokens.length; i++) {
+					if (depth === 0 && keyword(i) === "FOR") break;
+					if (tokens[i].kind !== "punct") continue;
+					if ("([{".includes(tokens[i].text)) depth++;
+					if (")]}".includes(tokens[i].text)) depth--;
+				}
+				let end = i;
+				while (end > start && tokens[end - 1].text === ",") end--;
+				if (end === start) {
+					this.error("Expected a condition after WHERE", tokens[start - 1].span);
+					break;
+				}
+				value = this.expression(tokens.slice(start, end));
+			}
+
+			for (const operation of operations) {
+				permissions[operation] = value;
+			}
+		}
+
+		return permissions;
+	}
+
+	private parseDefineField(): Statement {
+		this.position = 2;
+		const { overwrite, ifNotExists } = this.parseDefineModifiers();
+
+		// The field name is a path that runs up to the ON keyword
+		const nameTokens: Token[] = [];
+		while (this.peek() && this.keywordAt(this.position) !== "ON") {
+			nameTokens.push(this.next() as Token);
+		}
+		if (nameTokens.length === 0) {
+			return this.fail("Expected a field name after DEFINE FIELD");
+		}
+		if (!this.peek()) {
+			return this.fail("Expected ON <table> after the field name");
+		}
+		this.position++; // ON
+		if (this.keywordAt(this.position) === "TABLE") {
+			this.position++;
+		}
+
+		const tableToken = this.next();
+		if (!tableToken || tableToken.kind !== "ident") {
+			return this.fail("Expected a table name after ON");
+		}
+
+		const clauses = this.parseClauses(FIELD_CLAUSES);
+		const statement: DefineFieldStatement = {
+			kind: "DefineField",
+			name: nameTokens.map((token) => token.value).join(""),
+			table: tableToken.value,
+			overwrite,
+			ifNotExists,
+			flexible: false,
+			defaultAlways: false,
+			readonly: false,
+			clauses,
+			...this.base(),
+		};
+
+		for (const clause of clauses) {
+			switch (clause.keyword) {
+				case "TYPE":
+					if (clause.value) {
+						statement.type = joinTypeTokens(clause.value.tokens);
+					} else {
+						this.error("Expected a type after TYPE", clause.span);
+					}
+					break;
+				case "FLEXIBLE":
+					statement.flexible = true;
+					break;
+				case "DEFAULT":
+				case "DEFAULT ALWAYS":
+					statement.default = clause.value;
+					statement.defaultAlways = clause.keyword === "DEFAULT ALWAYS";
+					break;
+				case "VALUE": {
+					// `<future>` values are evaluated on every read, like COMPUTED
+					const tokens = clause.value?.tokens ?? [];
+					if (
+						tokens[0]?.text === "<" &&
+						tokens[1]?.value.toLowerCase() === "future" &&
+						tokens[2]?.text === ">" &&
+						tokens.length > 3
+					) {
+						statement.computed = this.expression(tokens.slice(3));
+					} else {
+						statement.value = clause.value;
+					}
+					break;
+				}
+				case "COMPUTED":
+					statement.computed = clause.value;
+					break;
+				case "ASSERT":
+					statement.assert = clause.value;
+					break;
+				case "READONLY":
+					statement.readonly = true;
+					break;
+				case "PERMISSIONS":
+					statement.permissions = this.parsePermissions(clause);
+					break;
+				case "COMMENT":
+					statement.comment = stringValue(clause);
+					break;
+			}
+		}
+
+		return statement;
+	}
+
+	private parseDefineIndex(): Statement {
+		this.position = 2;
+		const { overwrite, ifNotExists } = this.parseDefineModifiers();
+
+		const nameToken = this.next();
+		if (!nameToken || nameToken.kind !== "ident") {
+			return this.fail("Expected an index name after DEFINE INDEX");
+		}
+		if (this.keywordAt(this.position) !== "ON") {
+			return this.fail("Expected ON <table> after the index name");
+		}
+		this.position++; // ON
+		if (this.keywordAt(this.position) === "TABLE") {
+			this.position++;
+		}
+
+		const tableToken = this.next();
+		if (!tableToken || tableToken.kind !== "ident") {
+			return this.fail("Expected a table name after ON");
+		}
+
+		const clauses = this.parseClauses(INDEX_CLAUSES);
+		const statement: DefineIndexStatement = {
+			kind: "DefineIndex",
+			name: nameToken.value,
+			table: tableToken.value,
+			columns: [],
+			unique: false,
+			count: false,
+			overwrite,
+			ifNotExists,
+			clauses,
+			...this.base(),
+		};
+
+		for (const clause of clauses) {
+			const options = optionsOf(clause);
+			switch (clause.keyword) {
+				case "FIELDS":
+				case "COLUMNS":
+					statement.columns = splitList(clause.value?.tokens ?? []).map(
+						(tokens) => tokens.map((token) => token.value).join(""),
+					);
+					break;
+				case "UNIQUE":
+					statement.unique = true;
+					break;
+				case "SEARCH":
+					statement.search = {
+						analyzer: options.get("ANALYZER"),
+						bm25: options.has("BM25"),
+						highlights: options.has("HIGHLIGHTS"),
+					};
+					break;
+				case "MTREE":
+				case "HNSW": {
+					const dimension = options.get("DIMENSION");
+					statement.vector = {
+						algorithm: clause.keyword === "MTREE" ? "mtree" : "hnsw",
+						dimension: dimension === undefined ? undefined : Number(dimension),
+						distance: options.get("DIST")?.toLowerCase(),
+						vectorType: options.get("TYPE")?.toLowerCase(),
+					};
+					break;
+				}
+				case "COUNT":
+					statement.count = true;
+					break;
+				case "COMMENT":
+					statement.comment = stringValue(clause);
+					break;
+			}
+		}
+
+		if (statement.columns.length === 0 && !statement.count) {
+			this.error("Expected FIELDS or COLUMNS in DEFINE INDEX", statement.span);
+		}
+
+		return statement;
+	}
+
+	/**
+	 * Parse `DEFINE FUNCTION fn::name($a: type, ...) [-> type] { ... }`
+	 */
+	private parseDefineFunction(): Statement {
+		this.position = 2;
+		const { overwrite, ifNotExists } = this.parseDefineModifiers();
+
+		// The name is a path such as fn::math::add that runs up to the parameters
+		const nameTokens: Token[] = [];
+		while (this.peek() && this.peek()?.text !== "(") {
+			nameTokens.push(this.next() as Token);
+		}
+		const name = nameTokens.map((token) => token.value).join("");
+		if (!/^fn(::[A-Za-z_][A-Za-z0-9_]*)+$/i.test(name)) {
+			return this.fail("Expected a function name like fn::name after DEFINE FUNCTION");
+		}
+		if (!this.peek()) {
+			return this.fail("Expected a parameter list after the function name");
+		}
+		this.position++; // (
+
+		const params: DefineFunctionStatement["params"] = [];
+		const paramTokens = this.takeUntil((token) => token.text === ")");
+		if (this.peek()?.text !== ")") {
+			return this.fail("Unclosed parameter list");
+		}
+		this.position++; // )
+		for (const tokens of splitTypeList(paramTokens)) {
+			if (tokens[0].kind !== "param" || tokens[1]?.text !== ":" || tokens.length < 3) {
+				this.error("Expected a parameter like $name: type", tokens[0].span);
+				continue;
+			}
+			params.push({ name: tokens[0].value, type: joinTypeTokens(tokens.slice(2)) });
+		}
+
+		let returnType: string | undefined;
+		if (this.peek()?.text === "->") {
+			this.position++;
+			const typeTokens = this.takeUntil((token) => token.text === "{");
+			if (typeTokens.length === 0) {
+				return this.fail("Expected a return type after ->");
+			}
+			returnType = joinTypeTokens(typeTokens);
+		}
+
+		let body: DefineFunctionStatement["body"];
+		if (this.peek()?.text === "{") {
+			const start = this.position;
+			let depth = 0;
+			do {
+				const token = this.next() as Token;
+				if (token.kind === "punct" && "([{".includes(token.text)) depth++;
+				if (token.kind === "punct" && ")]}".includes(token.text)) depth--;
+			} while (depth > 0 && this.peek());
+			body = this.expression(this.tokens.slice(start, this.position));
+		} else {
+			this.error("Expected a function body", (this.peek() ?? nameTokens[0]).span);
+		}
+
+		const clauses = this.parseClauses(FUNCTION_CLAUSES);
+		const statement: DefineFunctionStatement = {
+			kind: "DefineFunction",
+			name,
+			params,
+			returnType,
+			body,
+			overwrite,
+			ifNotExists,
+			clauses,
+			...this.base(),
+		};
+
+		for (const clause of clauses) {
+			if (clause.keyword === "COMMENT") statement.comment = stringValue(clause);
+			if (clause.keyword === "PERMISSIONS") {
+				statement.permissions = this.parseFunctionPermissions(clause);
+			}
+		}
+
+		return statement;
+	}
+
+	/**
+	 * Parse the `PERMISSIONS NONE | FULL | WHERE ...` clause of a function
+	 */
+	private parseFunctionPermissions(clause: Clause): PermissionRule | undefined {
+		const [first, ...rest] = clause.value?.tokens ?? [];
+		const keyword = first?.kind === "ident" ? first.value.toUpperCase() : "";
+		if ((keyword === "FULL" || keyword === "NONE") && rest.length === 0) {
+			return keyword === "FULL";
+		}
+		if (keyword === "WHERE" && rest.length > 0) {
+			return this.expression(rest);
+		}
+		this.error("Expected NONE, FULL or WHERE in PERMISSIONS", clause.span);
+		return undefined;
+	}
+
+	/**
+	 * Consume tokens up to (not including) the first top-level token matching
+	 * `stop`, treating `<` and `>` as brackets as they are inside types
+	 */
+	private takeUntil(stop: (token: Token) => boolean): Token[] {
+		const tokens: Token[] = [];
+		let depth = 0;
+		while (this.peek()) {
+			const token = this.peek() as Token;
+			if (depth === 0 && stop(token)) break;
+			if (token.kind === "punct" && "([{<".includes(token.text)) depth++;
+			if (token.kind === "punct" && ")]}>".includes(token.text)) depth--;
+			tokens.push(token);
+			this.position++;
+		}
+		return tokens;
+	}
+
+	/**
+	 * Parse the OVERWRITE / IF NOT EXISTS modifiers after DEFINE <kind>
+	 */
+	private parseDefineModifiers(): { overwrite: boolean; ifNotExists: boolean } {
+		let overwrite = false;
+		let ifNotExists = false;
+
+		if (this.keywordAt(this.position) === "OVERWRITE") {
+			overwrite = true;
+			this.position++;
+		} else if (
+			this.keywordAt(this.position) === "IF" &&
+			this.keywordAt(this.position + 1) === "NOT" &&
+			this.keywordAt(this.position + 2) === "EXISTS"
+		) {
+			ifNotExists = true;
+			this.position += 3;
+		}
+
+		return { overwrite, ifNotExists };
+	}
+
+	/**
+	 * Split the remaining tokens into clauses, each starting with a keyword
+	 * from the given set and running up to the next clause keyword
+	 */
+	private parseClauses(keywords: Set<string>): Clause[] {
+		const clauses: Clause[] = [];
+		let depth = 0;
+		let clauseStart = -1;
+		let keyword = "";
+		let valueStart = -1;
+		let reportedStray = false;
+
+		const close = (end: number) => {
+			if (clauseStart === -1) return;
+			const valueTokens = this.tokens.slice(valueStart, end);
+			clauses.push({
+				keyword,
+				value: valueTokens.length > 0 ? this.expression(valueTokens) : undefined,
+				span: spanOf(this.tokens.slice(clauseStart, Math.max(end, valueStart))),
+			});
+		};
+
+		for (let i = this.position; i < this.tokens.length; i++) {
+			const token = this.tokens[i];
+
+			if (depth === 0 && this.isClauseStart(i, keywords)) {
+				close(i);
+				clauseStart = i;
+				keyword = token.value.toUpperCase();
+				valueStart = i + 1;
+				if (keyword === "DEFAULT" && this.keywordAt(i + 1) === "ALWAYS") {
+					keyword = "DEFAULT ALWAYS";
+					valueStart = i + 2;
+					i++;
+				}
+				continue;
+			}
+
+			if (token.kind === "punct") {
+				if ("([{".includes(token.text)) depth++;
+				if (")]}".includes(token.text)) depth = Math.max(0, depth - 1);
+			}
+
+			// Tokens before the first clause keyword are not part of any clause
+			if (clauseStart === -1 && !reportedStray) {
+				this.error(`Unexpected '${token.text}'`, token.span);
+				reportedStray = true;
+			}
+		}
+		close(this.tokens.length);
+
+		return clauses;
+	}
+
+	private isClauseStart(index: number, keywords: Set<string>): boolean {
+		const token = this.tokens[index];
+		if (token.kind !== "ident" || token.text.startsWith("`")) return false;
+		if (!keywords.has(token.value.toUpperCase())) return false;
+
+		const previous = this.tokens[index - 1];
+		if (previous && index > this.position) {
+			const text = previous.kind === "ident" ? previous.value.toUpperCase() : previous.text;
+			if (OPERAND_PREFIXES.has(text)) return false;
+		}
+
+		const next = this.tokens[index + 1];
+		if (next && next.kind === "punct" && OPERAND_SUFFIXES.has(next.text)) {
+			return false;
+		}
+
+		return true;
+	}
+
+	private expression(tokens: Token[]): Expression {
+		const span = spanOf(tokens);
+		return {
+			text: this.source.slice(span.start.offset, span.end.offset),
+			tokens,
+			span,
+		};
+	}
+
+	private base(): { text: string; span: Span; leadingComments: string[] } {
+		const span = spanOf(this.tokens);
+		return {
+			text: this.source.slice(span.start.offset, span.end.offset),
+			span,
+			leadingComments: [],
+		};
+	}
+
+	private other(): OtherStatement {
+		const words: string[] = [];
+		for (let i = 0; i < this.tokens.length && words.length < 2; i++) {
+			const token = this.tokens[i];
+			if (token.kind !== "ident") break;
+			words.push(token.value.toUpperCase());
+			if (!["DEFINE", "REMOVE", "ALTER", "INFO"].includes(words[0])) break;
+		}
+
+		return {
+			kind: "Other",
+			keyword: words.join(" ") || this.tokens[0].text,
+			...this.base(),
+		};
+	}
+
+	private fail(message: string): OtherStatement {
+		const token = this.peek() ?? this.tokens[this.tokens.length - 1];
+		this.error(message, token.span);
+		return this.other();
+	}
+
+	private error(message: string, span: Span): void {
+		this.errors.push({ message, span });
+	}
+
+	private keywordAt(index: number): string | undefined {
+		const token = this.tokens[index];
+		return token?.kind === "ident" ? token.value.toUpperCase() : undefined;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.position];
+	}
+
+	private next(): Token | undefined {
+		return this.tokens[this.position++];
+	}
+}
+
+/**
+ * Read the string literal value of a clause such as COMMENT "..."
+ */
+function stringValue(clause: Clause): string | undefined {
+	const token = clause.value?.tokens[0];
+	if (!token) return undefined;
+	return token.kind === "string" ? token.value : clause.value?.text;
+}
+
+/**
+ * Split tokens on top-level commas, e.g. the columns of an index
+ */
+function splitList(tokens: Token[]): Token[][] {
+	const items: Token[][] = [[]];
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.kind === "punct") {
+			if ("([{".includes(token.text)) depth++;
+			if (")]}".includes(token.text)) depth--;
+			if (token.text === "," && depth === 0) {
+				items.push([]);
+				continue;
+			}
+		}
+		items[items.length - 1].push(token);
+	}
+	return items.filter((item) => item.length > 0);
+}
+
+/**
+ * Split type tokens on top-level commas, where `<` and `>` also nest, e.g.
+ * the parameters `$a: array<int, 5>, $b: string`
+ */
+function splitTypeList(tokens: Token[]): Token[][] {
+	const items: Token[][] = [[]];
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.kind === "punct") {
+			if ("([{<".includes(token.text)) depth++;
+			if (")]}>".includes(token.text)) depth--;
+			if (token.text === "," && depth === 0) {
+				items.push([]);
+				continue;
+			}
+		}
+		items[items.length - 1].push(token);
+	}
+	return items.filter((item) => item.length > 0);
+}
+
+/**
+ * Index options that take a value, e.g. `DIMENSION 4` or `DIST COSINE`
+ */
+const INDEX_VALUE_OPTIONS = new Set([
+	"ANALYZER",
+	"DIMENSION",
+	"DIST",
+	"TYPE",
+	"CAPACITY",
+	"EFC",
+	"M",
+	"M0",
+	"LM",
+]);
+
+/**
+ * Read the options of an index clause, e.g. `DIMENSION 4 DIST COSINE` after
+ * MTREE. Flags such as BM25 or HIGHLIGHTS map to an empty string.
+ */
+function optionsOf(clause: Clause): Map<string, string> {
+	const options = new Map<string, string>();
+	const tokens = clause.value?.tokens ?? [];
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (token.kind !== "ident") continue;
+		const option = token.value.toUpperCase();
+		if (INDEX_VALUE_OPTIONS.has(option) && tokens[i + 1]) {
+			options.set(option, tokens[++i].value);
+		} else {
+			options.set(option, "");
+		}
+	}
+	return options;
+}
@@ -0,0 +1,472 @@
+/**
+ * SurrealQL type IR
+ *
+ * A recursive representation of SurrealQL field types such as
+ * `option<array<record<user | post>, 10>>` or `{ a: string, b: "x" | "y" }`.
+ * Type strings are parsed once into this IR and every consumer (schema
+ * parsing, DB extraction, the schema registry and the generators) works on
+ * the same structure.
+ */
+import { type Token, tokenize } from "./lexer.ts";
+
+/**
+ * Names of the SurrealQL types that take no type parameters
+ */
+export const SCALAR_TYPES = [
+	"string",
+	"int",
+	"float",
+	"decimal",
+	"number",
+	"bool",
+	"datetime",
+	"duration",
+	"uuid",
+	"bytes",
+	"regex",
+	"null",
+	"none",
+] as const;
+
+export type ScalarTypeName = typeof SCALAR_TYPES[number];
+
+/**
+ * Geometry subtypes accepted by `geometry<...>`
+ */
+export const GEOMETRY_TYPES = [
+	"feature",
+	"point",
+	"line",
+	"polygon",
+	"multipoint",
+	"multiline",
+	"multipolygon",
+	"collection",
+] as const;
+
+export type GeometryTypeName = typeof GEOMETRY_TYPES[number];
+
+export interface AnyType {
+	kind: "any";
+}
+
+export interface ScalarType {
+	kind: "scalar";
+	name: ScalarTypeName;
+}
+
+export interface OptionType {
+	kind: "option";
+	inner: SurrealType;
+}
+
+export interface UnionType {
+	kind: "union";
+	variants: SurrealType[];
+}
+
+export interface LiteralType {
+	kind: "literal";
+	value: string | number | boolean;
+}
+
+export interface ArrayType {
+	kind: "array";
+	element: SurrealType;
+	/** Maximum number of items, from `array<T, N>` */
+	maxLength?: number;
+}
+
+export interface SetType {
+	kind: "set";
+	element: SurrealType;
+	/** Maximum number of items, from `set<T, N>` */
+	maxLength?: number;
+}
+
+export interface RecordType {
+	kind: "record";
+	/** Allowed tables, empty for a plain `record` */
+	tables: string[];
+}
+
+export interface ReferencesType {
+	kind: "references";
+	/** Referencing tables, empty for a plain `references` */
+	tables: string[];
+}
+
+export interface GeometryType {
+	kind: "geometry";
+	/** Allowed geometry subtypes, empty for any geometry */
+	subtypes: GeometryTypeName[];
+}
+
+export interface RangeType {
+	kind: "range";
+}
+
+export interface ObjectTypeField {
+	name: string;
+	type: SurrealType;
+}
+
+export interface ObjectType {
+	kind: "object";
+	/** Fields of an object literal type, undefined for a plain `object` */
+	fields?: ObjectTypeField[];
+}
+
+export type SurrealType =
+	| AnyType
+	| ScalarType
+	| OptionType
+	| UnionType
+	| LiteralType
+	| ArrayType
+	| SetType
+	| RecordType
+	| ReferencesType
+	| GeometryType
+	| RangeType
+	| ObjectType;
+
+/**
+ * Parse a SurrealQL type string into the type IR
+ *
+ * @param text - The type as written after `TYPE`, e.g. `option<record<user>>`
+ * @returns The parsed type
+ * @throws Error when the text is not a valid SurrealQL type
+ */
+export function parseSurrealType(text: string): SurrealType {
+	const { tokens, errors } = tokenize(text);
+	if (errors.length > 0) {
+		throw new Error(`Invalid type '${text}': ${errors[0].message}`);
+	}
+
+	const parser = new TypeParser(tokens, text);
+	const type = parser.parseType();
+	// Older schemas spell object literals as `option<object> { a: string }`
+	const fields = parser.parseTrailingObjectFields();
+	parser.expectEnd();
+	return fields ? withObjectFields(type, fields) : type;
+}
+
+/**
+ * Format a type IR back into canonical SurrealQL type syntax
+ *
+ * @param type - The type to format
+ * @returns The SurrealQL type string
+ */
+export function formatSurrealType(type: SurrealType): string {
+	switch (type.kind) {
+		case "any":
+		case "range":
+			return type.kind;
+		case "scalar":
+			return type.name;
+		case "option":
+			return `option<${formatSurrealType(type.inner)}>`;
+		case "union":
+			return type.variants.map(formatSurrealType).join(" | ");
+		case "literal":
+			return JSON.stringify(type.value);
+		case "array":
+		case "set": {
+			const element = formatSurrealType(type.element);
+			return type.maxLength === undefined
+				? `${type.kind}<${element}>`
+				: `${type.kind}<${element}, ${type.maxLength}>`;
+		}
+		case "record":
+		case "references":
+			return type.tables.length > 0
+				? `${type.kind}<${type.tables.join(" | ")}>`
+				: type.kind;
+		case "geometry":
+			return type.subtypes.length > 0
+				? `geometry<${type.subtypes.join(" | ")}>`
+				: "geometry";
+		case "object":
+			if (!type.fields) return "object";
+			return `{ ${
+				type.fields
+					.map((field) => `${formatObjectKey(field.name)}: ${formatSurrealType(field.type)}`)
+					.join(", ")
+			} }`;
+	}
+}
+
+/**
+ * Split a top-level `option<T>` (or `none | T`) into its inner type
+ *
+ * @param type - The type to unwrap
+ * @returns The inner type and whether the value may be NONE
+ */
+export function unwrapOption(
+	type: SurrealType,
+): { type: SurrealType; optional: boolean } {
+	if (type.kind === "option") {
+		return { type: type.inner, optional: true };
+	}
+
+	if (type.kind === "union") {
+		const variants = type.variants.filter(
+			(variant) => !(variant.kind === "scalar" && variant.name === "none"),
+		);
+		if (variants.length < type.variants.length && variants.length > 0) {
+			return {
+				type: variants.length === 1 ? variants[0] : { kind: "union", variants },
+				optional: true,
+			};
+		}
+	}
+
+	return { type, optional: false };
+}
+
+/**
+ * Collect every table referenced by `record<...>` or `references<...>`
+ * anywhere inside a type
+ *
+ * @param type - The type to inspect
+ * @returns Table names in order of appearance, without duplicates
+ */
+export function referencedTables(type: SurrealType): string[] {
+	const tables = new Set<string>();
+
+	const visit = (current: SurrealType) => {
+		switch (current.kind) {
+			case "record":
+			case "references":
+				for (const table of current.tables) tables.add(table);
+				break;
+			case "option":
+				visit(current.inner);
+				break;
+			case "union":
+				current.variants.forEach(visit);
+				break;
+			case "array":
+			case "set":
+				visit(current.element);
+				break;
+			case "object":
+				current.fields?.forEach((field) => visit(field.type));
+				break;
+		}
+	};
+
+	visit(type);
+	return [...tables];
+}
+
+/**
+ * Attach trailing object literal fields to the innermost plain `object`
+ */
+function withObjectFields(
+	type: SurrealType,
+	fields: ObjectTypeField[],
+): SurrealType {
+	switch (type.kind) {
+		case "object":
+			return type.fields ? type : { kind: "object", fields };
+		case "option":
+			return { ...type, inner: withObjectFields(type.inner, fields) };
+		case "array":
+		case "set":
+			return { ...type, element: withObjectFields(type.element, fields) };
+		default:
+			return type;
+	}
+}
+
+function formatObjectKey(name: string): string {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Recursive descent parser over the tokens of a type string
+ */
+class TypeParser {
+	private pos = 0;
+
+	constructor(
+		private readonly tokens: Token[],
+		private readonly text: string,
+	) {}
+
+	parseType(): SurrealType {
+		const variants = [this.parseVariant()];
+		while (this.eat("|")) {
+			variants.push(this.parseVariant());
+		}
+		return variants.length === 1 ? variants[0] : { kind: "union", variants };
+	}
+
+	expectEnd(): void {
+		if (this.peek().kind !== "eof") {
+			this.fail(`unexpected '${this.peek().text}'`);
+		}
+	}
+
+	parseTrailingObjectFields(): ObjectTypeField[] | undefined {
+		return this.eat("{") ? this.parseObjectFields().fields : undefined;
+	}
+
+	private parseVariant(): SurrealType {
+		const token = this.next();
+
+		if (token.kind === "string") {
+			return { kind: "literal", value: token.value };
+		}
+
+		if (token.kind === "number") {
+			return { kind: "literal", value: Number(token.text.replace(/_/g, "")) };
+		}
+
+		if (token.kind === "punct" && token.text === "-" && this.peek().kind === "number") {
+			return { kind: "literal", value: -Number(this.next().text.replace(/_/g, "")) };
+		}
+
+		if (token.kind === "punct" && token.text === "{") {
+			return this.parseObjectFields();
+		}
+
+		if (token.kind !== "ident") {
+			this.fail(`unexpected '${token.text || "end of type"}'`);
+		}
+
+		const name = token.text.toLowerCase();
+		switch (name) {
+			case "any":
+				return { kind: "any" };
+			case "true":
+			case "false":
+				return { kind: "literal", value: name === "true" };
+			case "option": {
+				this.expect("<");
+				const inner = this.parseType();
+				this.expect(">");
+				return { kind: "option", inner };
+			}
+			case "array":
+			case "set": {
+				if (!this.eat("<")) {
+					return { kind: name, element: { kind: "any" } };
+				}
+				const element = this.parseType();
+				let maxLength: number | undefined;
+				if (this.eat(",")) {
+					const size = this.next();
+					if (size.kind !== "number") {
+						this.fail(`expected a size, found '${size.text}'`);
+					}
+					maxLength = Number(size.text);
+				}
+				this.expect(">");
+				return maxLength === undefined
+					? { kind: name, element }
+					: { kind: name, element, maxLength };
+			}
+			case "record":
+			case "references":
+				return { kind: name, tables: this.parseNameList() };
+			case "geometry": {
+				const subtypes = this.parseNameList().map((subtype) => {
+					const normalized = subtype.toLowerCase() as GeometryTypeName;
+					if (!GEOMETRY_TYPES.includes(normalized)) {
+						this.fail(`unknown geometry type '${subtype}'`);
+					}
+					return normalized;
+				});
+				return { kind: "geometry", subtypes };
+			}
+			case "range":
+				// range<int> and friends only constrain the bounds
+				if (this.eat("<")) {
+					this.parseType();
+					this.expect(">");
+				}
+				return { kind: "range" };
+			case "object":
+				// Some schemas spell object literal types as `object { ... }`
+				if (this.eat("{")) {
+					return this.parseObjectFields();
+				}
+				return { kind: "object" };
+		}
+
+		if ((SCALAR_TYPES as readonly string[]).includes(name)) {
+			return { kind: "scalar", name: name as ScalarTypeName };
+		}
+
+		this.fail(`unknown type '${token.text}'`);
+	}
+
+	/**
+	 * Parse the fields of an object literal type after its opening brace
+	 */
+	private parseObjectFields(): ObjectType {
+		const fields: ObjectTypeField[] = [];
+		while (!this.eat("}")) {
+			const key = this.next();
+			if (key.kind !== "ident" && key.kind !== "string") {
+				this.fail(`expected a field name, found '${key.text || "end of type"}'`);
+			}
+			this.expect(":");
+			fields.push({ name: key.value, type: this.parseType() });
+			if (!this.eat(",")) {
+				this.expect("}");
+				break;
+			}
+		}
+		return { kind: "object", fields };
+	}
+
+	/**
+	 * Parse an optional `<a | b>` list of names, e.g. the tables of a record
+	 */
+	private parseNameList(): string[] {
+		const names: string[] = [];
+		if (!this.eat("<")) return names;
+		do {
+			const name = this.next();
+			if (name.kind !== "ident") {
+				this.fail(`expected a name, found '${name.text || "end of type"}'`);
+			}
+			names.push(name.value);
+		} while (this.eat("|"));
+		this.expect(">");
+		return names;
+	}
+
+	private peek(): Token {
+		return this.tokens[this.pos];
+	}
+
+	private next(): Token {
+		const token = this.tokens[this.pos];
+		if (token.kind !== "eof") this.pos++;
+		return token;
+	}
+
+	private eat(text: string): boolean {
+		const token = this.peek();
+		if (token.kind === "punct" && token.text === text) {
+			this.pos++;
+			return true;
+		}
+		return false;
+	}
+
+	private expect(text: string): void {
+		if (!this.eat(text)) {
+			this.fail(`expected '${text}', found '${this.peek().text || "end of type"}'`);
+		}
+	}
+
+	private fail(message: string): never {
+		throw new Error(`Invalid type '${this.text}': ${message}`);
+	}
+}
@@ -1,7 +1,17 @@
 // SurrealQL query parser and type inference
 import { Schema } from "effect";
-import type { TableDefinition } from "./schema.ts";
-import { recordId } from "./effect-schema.ts";
+import {
+	formatSurrealType,
+	referencedTables,
+	type SurrealType,
+	unwrapOption,
+} from "./parser/index.ts";
+import {
+	resolveFieldType,
+	type TableDefinition,
+	tableFields,
+} from "./schema.ts";
+import { surrealTypeToEffectSchema } from "./effect-schema.ts";
 
 /**
  * Represents a parsed SurrealQL query
@@ -76,14 +86,19 @@ export class SchemaRegistry {
 	registerTableFromDefinition(table: TableDefinition): void {
 		const fields: Record<string, FieldSchema> = {};
 
-		for (const field of table.fields) {
-			const { baseType, isOption, reference } = parseType(field.type);
+		for (const field of tableFields(table)) {
+			const surrealType = resolveFieldType(field);
+			const { type, optional } = unwrapOption(surrealType);
+			const [referencedTable] = referencedTables(type);
 
 			fields[field.name] = {
 				name: field.name,
-				type: baseType,
-				optional: field.optional || isOption,
-				reference: reference,
+				type: formatSurrealType(type),
+				optional,
+				reference: referencedTable
+					? { table: referencedTable, isOption: optional }
+					: undefined,
+				surrealType: type,
 			};
 		}
 
@@ -144,7 +159,9 @@ export class SchemaRegistry {
 					fromTable: tableName,
 					toTable: field.reference.table,
 					throughField: fieldName,
-					type: field.type.startsWith("array") ? "one-to-many" : "one-to-one",
+					type: ["array", "set", "references"].includes(field.surrealType.kind)
+						? "one-to-many"
+						: "one-to-one",
 				});
 			}
 		}
@@ -160,12 +177,15 @@ export interface TableSchema {
 
 export interface FieldSchema {
 	name: string;
+	/** Canonical SurrealQL type text, without a top-level option */
 	type: string;
 	optional: boolean;
 	reference?: {
 		table: string;
 		isOption: boolean;
 	};
+	/** Field type IR, without a top-level option */
+	surrealType: SurrealType;
 }
 
 export interface Relationship {
@@ -427,28 +447,7 @@ function createSchemaForField(
 	field: FieldSchema,
 	registry: SchemaRegistry,
 ): Schema.Schema<unknown> {
-	switch (field.type) {
-		case "string":
-			return Schema.String as Schema.Schema<unknown>;
-		case "number":
-			return Schema.Number as Schema.Schema<unknown>;
-		case "int":
-			return Schema.Number as Schema.Schema<unknown>;
-		case "float":
-			return Schema.Number as Schema.Schema<unknown>;
-		case "bool":
-			return Schema.Boolean as Schema.Schema<unknown>;
-		case "datetime":
-			return Schema.Date as Schema.Schema<unknown>;
-		case "record":
-			return recordId(field.reference?.table || "") as Schema.Schema<unknown>;
-		case "array":
-			return Schema.Array(Schema.Unknown) as Schema.Schema<unknown>;
-		case "object":
-			return Schema.Unknown;
-		default:
-			return Schema.Unknown;
-	}
+	return surrealTypeToEffectSchema(field.surrealType);
 }
 
 /**
@@ -490,69 +489,3 @@ function createSchemaForNestedField(
 
 	return Schema.Struct(fieldSchemas) as Schema.Schema<unknown>;
 }
-
-/**
- * Parse a SurrealDB type string into components
- * @param type The type string from SurrealDB schema
- * @returns Object containing baseType, isOption flag, and optional reference information
- */
-export function parseType(type: string): {
-	baseType: string;
-	isOption: boolean;
-	reference?: { table: string; isOption: boolean };
-} {
-	let isOption = false;
-	let baseType = type;
-	let reference: { table: string; isOption: boolean } | undefined;
-
-	// Remove any REFERENCE or other keywords that might appear after the type
-	baseType = baseType.replace(/\s+REFERENCE.*$/i, "");
-
-	// Remove trailing semicolons if present
-	baseType = baseType.replace(/;$/, "");
-
-	// Handle option types
-	if (baseType.startsWith("option<")) {
-		isOption = true;
-		baseType = baseType.slice(7, -1);
-	}
-
-	// Handle record references
-	if (baseType.startsWith("record<")) {
-		const tableName = baseType.slice(7, -1);
-		reference = {
-			table: tableName,
-			isOption: isOption,
-		};
-		baseType = "record";
-	}
-
-	// Handle references arrays
-	if (baseType.startsWith("references<")) {
-		const tableName = baseType.slice(11, -1);
-		reference = {
-			table: tableName,
-			isOption: isOption,
-		};
-		baseType = "references";
-	}
-
-	// Handle array types
-	if (baseType.startsWith("array<")) {
-		const innerType = baseType.slice(6, -1);
-		if (innerType.startsWith("record<")) {
-			const tableName = innerType.slice(7, -1);
-			reference = {
-				table: tableName,
-				isOption: false,
-			};
-			baseType = "array_record";
-		} else if (innerType === "float") {
-			baseType = "array_float";
-		} else {
-			baseType = "array";
-		}
-	}
-
-	return { baseType, isOption, reference };
-}
@@ -1,13 +1,87 @@
+import {
+	type AlterTableStatement,
+	type DefineFieldStatement,
+	type DefineFunctionStatement,
+	type DefineIndexStatement,
+	type DefineTableStatement,
+	formatSurrealType,
+	parseStatements,
+	parseSurrealType,
+	type PermissionOperation,
+	type PermissionRules,
+	referencedTables,
+	type RemoveStatement,
+	type Span,
+	type Statement,
+	type SurrealType,
+	unwrapOption,
+} from "./parser/index.ts";
+import { type Diagnostic, DiagnosticCode, report } from "./diagnostics.ts";
+
 export interface FieldDefinition {
 	name: string;
 	type: string;
 	optional: boolean;
 	description?: string;
+	/** Expression of the DEFAULT clause, used when the client leaves the field out */
 	defaultValue?: string;
+	/** DEFAULT ALWAYS: the default is also applied when an update sets NONE */
+	defaultAlways?: boolean;
+	/** Expression of the VALUE clause; the database computes it on every write */
+	value?: string;
+	/** READONLY: the field can be set on create but not changed afterwards */
+	readonly?: boolean;
+	/** FLEXIBLE: an object field that keeps keys beyond its declared type */
+	flexible?: boolean;
+	/** Expression of a COMPUTED or `VALUE <future>` field, evaluated on every read */
+	computed?: string;
 	reference?: {
 		table: string;
 		isOption: boolean;
 	};
+	/** Full type IR, including a top-level `option<...>` for optional fields */
+	surrealType?: SurrealType;
+	/** Expression of the ASSERT clause, e.g. `string::len($value) > 0` */
+	assert?: string;
+	/** Set when the field has a PERMISSIONS clause */
+	permissions?: PermissionsDefinition;
+}
+
+/**
+ * Permissions per operation: `true` for FULL, `false` for NONE, otherwise
+ * the WHERE condition as SurrealQL text
+ */
+export type PermissionsDefinition = Record<PermissionOperation, boolean | string>;
+
+/**
+ * Represents an index defined on a table
+ */
+export interface IndexDefinition {
+	name: string;
+	/** Indexed field paths */
+	columns: string[];
+	unique: boolean;
+	/** Index type, "standard" for plain and UNIQUE indexes */
+	kind: "standard" | "search" | "mtree" | "hnsw" | "count";
+	/** Analyzer of a SEARCH index */
+	analyzer?: string;
+	/** Vector dimension of an MTREE or HNSW index */
+	dimension?: number;
+	/** Distance function of an MTREE or HNSW index */
+	distance?: string;
+	description?: string;
+}
+
+/**
+ * Endpoints of a TYPE RELATION table (a graph edge)
+ */
+export interface RelationDefinition {
+	/** Tables allowed as the `in` record, empty for any table */
+	in: string[];
+	/** Tables allowed as the `out` record, empty for any table */
+	out: string[];
+	/** Whether the database rejects edges to records that do not exist */
+	enforced: boolean;
 }
 
 /**
@@ -17,6 +91,32 @@ export interface TableDefinition {
 	name: string;
 	description?: string;
 	fields: Array<FieldDefinition>;
+	indexes?: Array<IndexDefinition>;
+	tableType?: "any" | "normal" | "relation";
+	relation?: RelationDefinition;
+	/** Set when the table has a PERMISSIONS clause */
+	permissions?: PermissionsDefinition;
+}
+
+/**
+ * A parameter of a DEFINE FUNCTION definition
+ */
+export interface FunctionParameterDefinition {
+	/** Parameter name without the leading `$` */
+	name: string;
+	type: SurrealType;
+}
+
+/**
+ * Represents a `fn::*` function definition from SurrealDB schema
+ */
+export interface FunctionDefinition {
+	/** Full function name, e.g. `fn::greet` */
+	name: string;
+	description?: string;
+	params: Array<FunctionParameterDefinition>;
+	/** Declared return type, undefined when the function does not declare one */
+	returns?: SurrealType;
 }
 
 /**
@@ -29,286 +129,883 @@ export function parseType(type: string): {
 	isOption: boolean;
 	reference?: { table: string; isOption: boolean };
 } {
-	let isOption = false;
-	let baseType = type;
-	let reference: { table: string; isOption: boolean } | undefined;
-
 	// Remove any REFERENCE or other keywords that might appear after the type
-	baseType = baseType.replace(/\s+REFERENCE.*$/i, "");
+	const text = type.replace(/\s+REFERENCE.*$/i, "").replace(/;$/, "").trim();
 
-	// Remove trailing semicolons if present
-	baseType = baseType.replace(/;$/, "");
+	let surrealType: SurrealType;
+	try {
+		surrealType = parseSurrealType(text);
+	} catch {
+		return { baseType: text, isOption: false, reference: undefined };
+	}
 
-	// Handle option types
-	if (baseType.startsWith("option<")) {
-		isOption = true;
-		baseType = baseType.slice(7, -1);
+	return toLegacyType(surrealType);
+}
+
+/**
+ * Flattens a type IR into the legacy `baseType` names (`record`,
+ * `array_record`, `array_float`, `references`, ...)
+ */
+function toLegacyType(surrealType: SurrealType): ReturnType<typeof parseType> {
+	const { type, optional: isOption } = unwrapOption(surrealType);
+	const singleTable = (tables: string[]) =>
+		tables.length === 1 ? tables[0] : undefined;
+
+	switch (type.kind) {
+		case "record":
+		case "references": {
+			const table = singleTable(type.tables);
+			return {
+				baseType: type.kind,
+				isOption,
+				reference: table ? { table, isOption } : undefined,
+			};
+		}
+		case "array": {
+			const element = type.element;
+			if (element.kind === "record" && singleTable(element.tables)) {
+				return {
+					baseType: "array_record",
+					isOption,
+					reference: { table: element.tables[0], isOption: false },
+				};
+			}
+			if (element.kind === "scalar" && element.name === "float") {
+				return { baseType: "array_float", isOption, reference: undefined };
+			}
+			return { baseType: "array", isOption, reference: undefined };
+		}
+		case "scalar":
+			return { baseType: type.name, isOption, reference: undefined };
+		case "object":
+			return { baseType: "object", isOption, reference: undefined };
+		default:
+			return {
+				baseType: formatSurrealType(type),
+				isOption,
+				reference: undefined,
+			};
 	}
+}
 
-	// Handle record references
-	if (baseType.startsWith("record<")) {
-		const tableName = baseType.slice(7, -1);
-		reference = {
-			table: tableName,
-			isOption: isOption,
-		};
-		baseType = "record";
+/**
+ * Resolves the full type IR of a field
+ *
+ * Fields parsed from SurrealQL carry their `surrealType`. Hand-built field
+ * definitions that only use the legacy `type` names are converted here.
+ *
+ * @param field The field definition
+ * @returns The field type, wrapped in `option<...>` when the field is optional
+ */
+export function resolveFieldType(
+	field: Pick<FieldDefinition, "type" | "optional" | "reference" | "surrealType">,
+): SurrealType {
+	if (field.surrealType) {
+		return field.surrealType;
 	}
 
-	// Handle references arrays
-	if (baseType.startsWith("references<")) {
-		const tableName = baseType.slice(11, -1);
-		reference = {
-			table: tableName,
-			isOption: isOption,
-		};
-		baseType = "references";
+	const tables = field.reference?.table ? [field.reference.table] : [];
+	let type: SurrealType;
+	switch (field.type) {
+		case "record":
+			type = { kind: "record", tables };
+			break;
+		case "references":
+			type = { kind: "references", tables };
+			break;
+		case "array_record":
+			type = { kind: "array", element: { kind: "record", tables } };
+			break;
+		case "array_float":
+			type = { kind: "array", element: { kind: "scalar", name: "float" } };
+			break;
+		case "array_string":
+			type = { kind: "array", element: { kind: "scalar", name: "string" } };
+			break;
+		default:
+			try {
+				type = parseSurrealType(field.type);
+			} catch {
+				type = { kind: "any" };
+			}
 	}
 
-	// Handle array types
-	if (baseType.startsWith("array<")) {
-		const innerType = baseType.slice(6, -1);
-		if (innerType.startsWith("record<")) {
-			const tableName = innerType.slice(7, -1);
-			reference = {
-				table: tableName,
-				isOption: false,
-			};
-			baseType = "array_record";
-		} else if (innerType === "float") {
-			baseType = "array_float";
-		} else {
-			baseType = "array";
-		}
+	if (field.optional && !unwrapOption(type).optional) {
+		return { kind: "option", inner: type };
 	}
+	return type;
+}
 
-	return { baseType, isOption, reference };
+/**
+ * Parses SurrealQL content to extract table definitions
+ * @param content The SurrealQL content as a string
+ * @returns Array of table definitions
+ */
+export function parseSurQL(content: string): TableDefinition[] {
+	const { statements } = parseStatements(content);
+	return buildTableDefinitions(statements);
 }
 
 /**
- * Extracts comment string from a line containing a COMMENT clause
- * @param line The line to extract from
- * @returns The extracted comment or undefined if not found
+ * A SurrealQL source to read, e.g. one schema file
  */
-function extractComment(line: string): string | undefined {
-	// Find the position of COMMENT keyword
-	const commentIndex = line.indexOf("COMMENT");
-	if (commentIndex === -1) return undefined;
+export interface SurQLSource {
+	/** Path of the file, used in diagnostics */
+	path?: string;
+	content: string;
+}
 
-	// Look for both single and double quotes
-	let startQuoteIndex = line.indexOf('"', commentIndex);
-	const quoteChar = startQuoteIndex !== -1 ? '"' : "'";
+/**
+ * The result of reading a whole SurrealQL document
+ */
+export interface SurQLDocument {
+	tables: TableDefinition[];
+	functions: FunctionDefinition[];
+	diagnostics: Diagnostic[];
+}
 
-	// If no double quote, try single quote
-	if (startQuoteIndex === -1) {
-		startQuoteIndex = line.indexOf("'", commentIndex);
-		if (startQuoteIndex === -1) return undefined;
-	}
+/**
+ * Parses SurrealQL content into table and function definitions, collecting
+ * diagnostics for everything that could not be modelled
+ * @param content The SurrealQL content as a string
+ * @param file Path of the content, used in diagnostics
+ * @returns The definitions and the diagnostics
+ */
+export function parseSurQLDocument(
+	content: string,
+	file?: string,
+): SurQLDocument {
+	return parseSurQLSources([{ path: file, content }]);
+}
 
-	// Find the closing quote - accounting for escaped quotes
-	let endQuoteIndex = -1;
-	let searchPos = startQuoteIndex + 1;
+/**
+ * Parses several SurrealQL sources into one model
+ *
+ * The sources are read in order as if they were one file, so a record type
+ * may point at a table defined in another source. A table defined in more
+ * than one source is reported as an error.
+ *
+ * @param sources The sources, e.g. the files of a schema split by domain
+ * @returns The merged definitions and the diagnostics of all sources
+ */
+export function parseSurQLSources(sources: SurQLSource[]): SurQLDocument {
+	const statements: Statement[] = [];
+	const diagnostics: Diagnostic[] = [];
 
-	while (searchPos < line.length) {
-		const nextQuotePos = line.indexOf(quoteChar, searchPos);
-		if (nextQuotePos === -1) break;
+	for (const source of sources) {
+		const result = parseStatements(source.content, source.path);
+		statements.push(...result.statements);
+		diagnostics.push(...result.errors.map((error): Diagnostic => ({
+			severity: "error",
+			code: DiagnosticCode.SyntaxError,
+			message: error.message,
+			file: source.path,
+			span: error.span,
+		})));
+	}
 
-		// Check if this quote is escaped
-		if (line[nextQuotePos - 1] === "\\") {
-			searchPos = nextQuotePos + 1;
-			continue;
-		}
+	const tables = buildTableDefinitions(statements, diagnostics);
+	const functions = new Map<string, FunctionDefinition>();
+	const functionDefinedBy = new Map<string, Statement>();
+	const tableNames = new Set(tables.map((table) => table.name.toLowerCase()));
+	// Only the definition that ends up in the model is checked for references
+	const lastFieldStatements = new Set<Statement>();
+	const seenFields = new Set<string>();
+	for (const statement of [...statements].reverse()) {
+		if (statement.kind !== "DefineField") continue;
+		const key = `${statement.table.toLowerCase()}:${statement.name}`;
+		if (!seenFields.has(key)) lastFieldStatements.add(statement);
+		seenFields.add(key);
+	}
 
-		endQuoteIndex = nextQuotePos;
-		break;
+	for (const statement of statements) {
+		if (statement.kind === "DefineFunction") {
+			const key = statement.name.toLowerCase();
+			const label = `Function ${statement.name}`;
+			if (shouldDefine(statement, functionDefinedBy.get(key), label, diagnostics)) {
+				functionDefinedBy.set(key, statement);
+				functions.set(key, buildFunctionDefinition(statement, diagnostics));
+			}
+		} else if (statement.kind === "Remove" && statement.target === "function") {
+			const key = statement.name.toLowerCase();
+			if (functions.delete(key)) {
+				functionDefinedBy.delete(key);
+			} else {
+				reportMissing(statement, `Function ${statement.name}`, diagnostics);
+			}
+		} else if (
+			statement.kind === "DefineField" &&
+			statement.type &&
+			lastFieldStatements.has(statement)
+		) {
+			const field = tables
+				.find((table) => table.name.toLowerCase() === statement.table.toLowerCase())
+				?.fields.find((field) => field.name === statement.name);
+			for (const table of referencedTables(field?.surrealType ?? { kind: "any" })) {
+				if (!tableNames.has(table.toLowerCase())) {
+					diagnostics.push({
+						severity: "warning",
+						code: DiagnosticCode.UnknownTable,
+						message:
+							`Field ${statement.table}.${statement.name} references table '${table}', which is not defined`,
+						file: statement.file,
+						span: clauseSpan(statement, "TYPE"),
+					});
+				}
+			}
+		} else if (statement.kind === "Other" && statement.keyword.startsWith("DEFINE ")) {
+			diagnostics.push({
+				severity: "info",
+				code: DiagnosticCode.Ignored,
+				message: `${statement.keyword} is not part of the generated schema`,
+				file: statement.file,
+				span: statement.span,
+			});
+		}
 	}
 
-	if (endQuoteIndex === -1) return undefined;
+	// Order by source, then by position within the source
+	const order = new Map(sources.map((source, index) => [source.path, index]));
+	diagnostics.sort((a, b) =>
+		(order.get(a.file) ?? 0) - (order.get(b.file) ?? 0) ||
+		(a.span?.start.offset ?? 0) - (b.span?.start.offset ?? 0)
+	);
 
-	// Extract the content between quotes
-	return line.substring(startQuoteIndex + 1, endQuoteIndex);
+	return { tables, functions: [...functions.values()], diagnostics };
 }
 
 /**
- * Parses SurrealQL content to extract table definitions
+ * The span of a clause value, falling back to the whole statement
+ */
+function clauseSpan(
+	statement: DefineFieldStatement,
+	keyword: string,
+): Span {
+	const clause = statement.clauses.find((clause) => clause.keyword === keyword);
+	return clause?.value?.span ?? statement.span;
+}
+
+/**
+ * Parses SurrealQL content to extract function definitions
  * @param content The SurrealQL content as a string
- * @returns Array of table definitions
+ * @returns Array of function definitions
  */
-export function parseSurQL(content: string): TableDefinition[] {
-	const tables: TableDefinition[] = [];
-	const lines = content.split("\n");
-	let currentTable: TableDefinition | null = null;
-	let currentDescription: string | undefined = undefined;
-
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i];
-		const trimmedLine = line.trim();
-
-		// Process comments as potential descriptions for fields
-		if (trimmedLine.startsWith("--")) {
-			// Save comment as a potential description for the next field
-			const descriptionText = trimmedLine.substring(2).trim();
-			if (descriptionText) {
-				currentDescription = descriptionText;
+export function parseSurQLFunctions(content: string): FunctionDefinition[] {
+	return parseSurQLDocument(content).functions;
+}
+
+/**
+ * Builds table definitions from parsed SurrealQL statements
+ *
+ * Statements are applied in order. A field defined before its table (or on a
+ * table that is never defined) implicitly creates that table, the same way
+ * SurrealDB does.
+ *
+ * @param statements The parsed statements
+ * @param diagnostics Collects problems; they are printed as warnings when omitted
+ * @returns Array of table definitions in order of first appearance
+ */
+export function buildTableDefinitions(
+	statements: Statement[],
+	diagnostics?: Diagnostic[],
+): TableDefinition[] {
+	const tables = new Map<string, TableDefinition>();
+	// The DEFINE statement behind each explicitly defined table, field and index
+	const definedBy = new Map<string, Statement>();
+
+	const tableFor = (name: string): TableDefinition => {
+		const key = name.toLowerCase();
+		let table = tables.get(key);
+		if (!table) {
+			table = { name, fields: [] };
+			tables.set(key, table);
+		}
+		return table;
+	};
+
+	for (const statement of statements) {
+		if (statement.kind === "DefineTable") {
+			const key = `table:${statement.name.toLowerCase()}`;
+			if (!shouldDefine(statement, definedBy.get(key), `Table ${statement.name}`, diagnostics)) {
+				continue;
+			}
+			definedBy.set(key, statement);
+
+			const table = tableFor(statement.name);
+			const definition = buildTableDefinition(statement);
+			if (statement.overwrite) {
+				// OVERWRITE replaces the table definition but keeps its fields and indexes
+				delete table.description;
+				delete table.tableType;
+				delete table.relation;
+				delete table.permissions;
 			}
+			table.description = definition.description ?? table.description;
+			if (definition.tableType) table.tableType = definition.tableType;
+			if (definition.relation) table.relation = definition.relation;
+			if (definition.permissions) table.permissions = definition.permissions;
+			if (!table.description) delete table.description;
 			continue;
 		}
 
-		// Skip empty lines
-		if (!trimmedLine) {
-			currentDescription = undefined; // Reset description on empty line
+		if (statement.kind === "AlterTable") {
+			const table = tables.get(statement.name.toLowerCase());
+			if (!table) {
+				reportMissing(statement, `Table ${statement.name}`, diagnostics);
+				continue;
+			}
+			if (statement.comment !== undefined) table.description = statement.comment;
+			if (statement.tableType) table.tableType = statement.tableType;
+			if (statement.relation) table.relation = { ...statement.relation };
+			if (statement.permissions) {
+				table.permissions = buildPermissions(statement.permissions, false);
+			}
 			continue;
 		}
 
-		// Check for table definition
-		if (trimmedLine.startsWith("DEFINE TABLE")) {
-			if (currentTable) {
-				tables.push(currentTable);
+		if (statement.kind === "DefineField") {
+			const key = `field:${statement.table.toLowerCase()}:${statement.name}`;
+			const label = `Field ${statement.table}.${statement.name}`;
+			if (!shouldDefine(statement, definedBy.get(key), label, diagnostics)) {
+				continue;
 			}
-			// Extract table name, handling OVERWRITE keyword
-			const tableMatch = trimmedLine.match(/DEFINE TABLE (?:OVERWRITE )?(\w+)/);
-
-			if (tableMatch) {
-				const tableName = tableMatch[1];
-
-				// Check for COMMENT in the table definition
-				let tableDescription: string | undefined = undefined;
-				const commentDescription = extractComment(trimmedLine);
-				if (commentDescription) {
-					tableDescription = commentDescription;
-				} else {
-					// If COMMENT is not in this line, use the previous comment line
-					tableDescription = currentDescription;
-				}
+			definedBy.set(key, statement);
 
-				currentTable = {
-					name: tableName,
-					description: tableDescription,
-					fields: [],
-				};
+			const table = tableFor(statement.table);
+			const field = buildFieldDefinition(statement, diagnostics);
+			const existing = table.fields.findIndex((f) => f.name === field.name);
+			if (existing === -1) {
+				table.fields.push(field);
+			} else {
+				table.fields[existing] = field;
 			}
-			currentDescription = undefined; // Reset description
 			continue;
 		}
 
-		// Check for field definition
-		if (trimmedLine.startsWith("DEFINE FIELD") && currentTable) {
-			// Modified regex to match field definitions, extracting only the type part
-			// This regex captures field_name, table_name, and type even if there's a semicolon at the end
-			const fieldMatch = trimmedLine.match(
-				/DEFINE FIELD (?:OVERWRITE )?(\w+) ON ([a-zA-Z_0-9]+) TYPE ([^;]+?)(?:DEFAULT|COMMENT|PERMISSIONS|ASSERT|;|$)/,
-			);
-			if (fieldMatch) {
-				const [, fieldName, tableName, fieldType] = fieldMatch;
-
-				// Find the correct table for this field
-				// Normalize table names for comparison
-				const normalizedTableName = tableName.toLowerCase();
-
-				// Find the table we want to add this field to
-				let targetTable = tables.find(
-					(t) => t.name.toLowerCase() === normalizedTableName,
-				);
-				if (
-					!targetTable &&
-					currentTable &&
-					currentTable.name.toLowerCase() === normalizedTableName
-				) {
-					targetTable = currentTable;
-				}
-
-				if (targetTable) {
-					const cleanType = fieldType.trim();
-					const { baseType, isOption, reference } = parseType(cleanType);
+		if (statement.kind === "DefineIndex") {
+			const key = `index:${statement.table.toLowerCase()}:${statement.name}`;
+			const label = `Index ${statement.name} on ${statement.table}`;
+			if (!shouldDefine(statement, definedBy.get(key), label, diagnostics)) {
+				continue;
+			}
+			definedBy.set(key, statement);
 
-					// Store the comment line description, will use if no COMMENT clause is found
-					const lineDescription = currentDescription;
+			const table = tableFor(statement.table);
+			const index = buildIndexDefinition(statement);
+			table.indexes = [
+				...(table.indexes ?? []).filter((i) => i.name !== index.name),
+				index,
+			];
+			continue;
+		}
 
-					// Check for inline COMMENT in the line
-					const commentDescription = extractComment(trimmedLine);
+		if (statement.kind === "Remove" && statement.target !== "function") {
+			const tableName = (statement.table ?? statement.name).toLowerCase();
+			const table = tables.get(tableName);
 
-					// Look for inline DEFAULT in the line
-					let defaultValue: string | undefined = undefined;
-					const defaultMatch = trimmedLine.match(
-						/DEFAULT (?:ALWAYS )?([^;]+?)(?:COMMENT|PERMISSIONS|ASSERT|;|$)/,
-					);
-					if (defaultMatch) {
-						defaultValue = defaultMatch[1].trim();
+			if (statement.target === "table") {
+				if (!table) {
+					reportMissing(statement, `Table ${statement.name}`, diagnostics);
+					continue;
+				}
+				// Removing a table removes its fields and indexes as well
+				tables.delete(tableName);
+				for (const key of definedBy.keys()) {
+					if (
+						key === `table:${tableName}` ||
+						key.startsWith(`field:${tableName}:`) ||
+						key.startsWith(`index:${tableName}:`)
+					) {
+						definedBy.delete(key);
 					}
+				}
+				continue;
+			}
 
-					// Look for multiline DEFAULT, VALUE, or additional COMMENT clauses
-					let multilineCommentDescription: string | undefined = undefined;
-
-					// Look ahead for DEFAULT, VALUE, or COMMENT clauses if not found inline
-					let j = i + 1;
-					while (j < lines.length) {
-						const nextLine = lines[j].trim();
-
-						// Stop looking if we hit an empty line or a new define statement
-						if (!nextLine || nextLine.startsWith("DEFINE")) {
-							break;
-						}
-
-						// Check for DEFAULT clause if not already found
-						if (!defaultValue && nextLine.startsWith("DEFAULT")) {
-							const defaultMatch = nextLine.match(
-								/DEFAULT (?:ALWAYS )?(.+?)(?:;|$)/,
-							);
-							if (defaultMatch) {
-								defaultValue = defaultMatch[1].trim();
-							}
-						}
-
-						// Check for VALUE clause (which is a form of default)
-						if (nextLine.startsWith("VALUE")) {
-							const valueMatch = nextLine.match(/VALUE (.+?)(?:;|$)/);
-							if (valueMatch) {
-								defaultValue = valueMatch[1].trim();
-							}
-						}
-
-						// Check for COMMENT clause if not found in the main line
-						if (!commentDescription && nextLine.includes("COMMENT")) {
-							multilineCommentDescription = extractComment(nextLine);
-						}
-
-						j++;
+			if (statement.target === "field") {
+				const path = statement.name;
+				// Nested fields such as address.city go with their parent
+				const isRemoved = (name: string) =>
+					name === path || name.startsWith(`${path}.`) || name.startsWith(`${path}[`);
+				if (!table?.fields.some((field) => field.name === path)) {
+					reportMissing(statement, `Field ${statement.table}.${path}`, diagnostics);
+					continue;
+				}
+				table.fields = table.fields.filter((field) => !isRemoved(field.name));
+				for (const key of definedBy.keys()) {
+					const prefix = `field:${tableName}:`;
+					if (key.startsWith(prefix) && isRemoved(key.slice(prefix.length))) {
+						definedBy.delete(key);
 					}
+				}
+				continue;
+			}
 
-					// If we found lines with DEFAULT/VALUE/COMMENT, skip those lines
-					if (j > i + 1) {
-						i = j - 1; // -1 because the loop will increment i
-					}
+			if (!table?.indexes?.some((index) => index.name === statement.name)) {
+				reportMissing(statement, `Index ${statement.name} on ${statement.table}`, diagnostics);
+				continue;
+			}
+			table.indexes = table.indexes.filter((index) => index.name !== statement.name);
+			definedBy.delete(`index:${tableName}:${statement.name}`);
+		}
+	}
 
-					// Prioritize COMMENT clause descriptions over comment line descriptions
-					// First check inline COMMENT, then multiline COMMENT, then comment line
-					const finalDescription =
-						commentDescription ||
-						multilineCommentDescription ||
-						lineDescription;
-
-					targetTable.fields.push({
-						name: fieldName,
-						type: baseType,
-						optional: trimmedLine.includes("OPTIONAL") || isOption,
-						description: finalDescription,
-						defaultValue,
-						reference,
-					});
-				}
+	// Element definitions can come before or after their array field
+	for (const table of tables.values()) {
+		table.fields = mergeElementFields(table.name, table.fields, diagnostics, (name) => {
+			const statement = definedBy.get(`field:${table.name.toLowerCase()}:${name}`);
+			return { file: statement?.file, span: statement?.span };
+		});
+	}
+
+	return [...tables.values()];
+}
+
+/**
+ * Decides whether a DEFINE statement takes effect the way SurrealDB would:
+ * OVERWRITE replaces an existing definition, IF NOT EXISTS keeps it, and a
+ * plain redefinition is rejected
+ * @param statement The DEFINE statement
+ * @param existing The statement that defined the same thing before, if any
+ * @param label Description of the definition for diagnostics, e.g. "Table user"
+ * @param diagnostics Collects the rejected redefinitions
+ * @returns Whether the statement should be applied
+ */
+function shouldDefine(
+	statement: DefineTableStatement | DefineFieldStatement | DefineIndexStatement | DefineFunctionStatement,
+	existing: Statement | undefined,
+	label: string,
+	diagnostics?: Diagnostic[],
+): boolean {
+	if (!existing || statement.overwrite) return true;
+	if (statement.ifNotExists) return false;
+
+	const location = `${existing.file ?? "<input>"}:${existing.span.start.line}`;
+	// Tables defined twice across files usually mean a copy-paste mistake
+	const isDuplicate = statement.kind === "DefineTable" && existing.file !== statement.file;
+	report(diagnostics, {
+		severity: isDuplicate ? "error" : "warning",
+		code: isDuplicate ? DiagnosticCode.DuplicateTable : DiagnosticCode.Redefined,
+		message: isDuplicate
+			? `${label} is already defined in ${location}`
+			: `${label} is already defined at ${location}; use OVERWRITE to replace it`,
+		file: statement.file,
+		span: statement.span,
+	});
+	return false;
+}
+
+/**
+ * Reports an ALTER or REMOVE of something that does not exist, unless the
+ * statement says IF EXISTS
+ */
+function reportMissing(
+	statement: AlterTableStatement | RemoveStatement,
+	label: string,
+	diagnostics?: Diagnostic[],
+): void {
+	if (statement.ifExists) return;
+	report(diagnostics, {
+		severity: "warning",
+		code: DiagnosticCode.NotFound,
+		message: `${label} does not exist`,
+		file: statement.file,
+		span: statement.span,
+	});
+}
+
+/**
+ * Builds an (empty) table definition from a DEFINE TABLE statement
+ * @param statement The parsed DEFINE TABLE statement
+ * @returns The table definition without fields
+ */
+export function buildTableDefinition(
+	statement: DefineTableStatement,
+): TableDefinition {
+	const table: TableDefinition = { name: statement.name, fields: [] };
+
+	const description = statement.comment ?? statement.leadingComments.at(-1);
+	if (description) table.description = description;
+	if (statement.tableType) table.tableType = statement.tableType;
+	if (statement.relation) table.relation = { ...statement.relation };
+	if (statement.permissions) {
+		// Operations a table clause leaves out are denied
+		table.permissions = buildPermissions(statement.permissions, false);
+	}
+
+	return table;
+}
+
+/**
+ * Builds the permissions of every operation from a PERMISSIONS clause
+ * @param rules The rules of the operations the clause mentions
+ * @param fallback The permission of operations the clause leaves out
+ * @returns The permissions of all operations
+ */
+export function buildPermissions(
+	rules: PermissionRules,
+	fallback: boolean,
+): PermissionsDefinition {
+	const permission = (operation: PermissionOperation) => {
+		const rule = rules[operation];
+		if (rule === undefined) return fallback;
+		return typeof rule === "boolean" ? rule : rule.text;
+	};
+
+	return {
+		select: permission("select"),
+		create: permission("create"),
+		update: permission("update"),
+		delete: permission("delete"),
+	};
+}
+
+/**
+ * Returns the fields of a table, including the implicit `in` and `out`
+ * record fields of a TYPE RELATION table unless they are defined explicitly
+ * @param table The table definition
+ * @returns The table fields
+ */
+export function tableFields(table: TableDefinition): FieldDefinition[] {
+	if (!table.relation) {
+		return table.fields;
+	}
+
+	const endpoints = (["in", "out"] as const)
+		.filter((name) => !table.fields.some((field) => field.name === name))
+		.map((name): FieldDefinition => {
+			const tables = table.relation?.[name] ?? [];
+			return {
+				name,
+				type: "record",
+				optional: false,
+				reference: tables.length === 1
+					? { table: tables[0], isOption: false }
+					: undefined,
+				surrealType: { kind: "record", tables },
+			};
+		});
+
+	return [...endpoints, ...table.fields];
+}
+
+/**
+ * A field with the nested fields defined below it, e.g. `address` with
+ * `address.city`
+ */
+export interface FieldNode {
+	name: string;
+	/** Undefined for a path that only exists through its nested fields */
+	field?: FieldDefinition;
+	children: FieldNode[];
+}
+
+/**
+ * Groups dotted field names such as `address.city` under their root field
+ * @param fields The fields of a table
+ * @returns The root fields, each with its nested fields as children
+ */
+export function fieldTree(fields: FieldDefinition[]): FieldNode[] {
+	const roots: FieldNode[] = [];
+
+	for (const field of fields) {
+		let siblings = roots;
+		const path = field.name.split(".");
+		path.forEach((segment, index) => {
+			let node = siblings.find((candidate) => candidate.name === segment);
+			if (!node) {
+				node = { name: segment, children: [] };
+				siblings.push(node);
+			}
+			if (index === path.length - 1) {
+				node.field = field;
 			}
-			currentDescription = undefined; // Reset description after field is defined
+			siblings = node.children;
+		});
+	}
+
+	return roots;
+}
+
+/**
+ * Formats a DEFAULT that is a plain value as a JavaScript literal. Defaults
+ * the database computes, like `time::now()`, have no client-side value.
+ * @param value The expression of the DEFAULT clause
+ * @returns The literal, or undefined when the database computes the default
+ */
+export function formatDefaultLiteral(value: string): string | undefined {
+	if (
+		/^-?\d+(\.\d+)?$/.test(value) || value === "true" || value === "false" ||
+		value === "[]"
+	) {
+		return value;
+	}
+	if (/^(["'])(?:\\.|(?!\1).)*\1$/.test(value)) {
+		return JSON.stringify(value.slice(1, -1));
+	}
+	return undefined;
+}
+
+/**
+ * Whether the database sets a field itself, so the client can't write it
+ * after the record is created: VALUE, READONLY and computed fields
+ * @param field The field definition
+ * @returns True for fields left out of create and update schemas
+ */
+export function isReadonlyField(field: FieldDefinition): boolean {
+	return Boolean(
+		field.readonly || field.value !== undefined || field.computed !== undefined,
+	);
+}
+
+/**
+ * Merges array element definitions such as `tags[*]` and `items[*].price`
+ * into the element type of their array field
+ * @param table Name of the table the fields belong to
+ * @param fields The fields of the table, including element definitions
+ * @param diagnostics Collects problems; they are printed as warnings when omitted
+ * @param locate Finds the source position of a field for diagnostics
+ * @returns The fields without the element definitions
+ */
+export function mergeElementFields(
+	table: string,
+	fields: FieldDefinition[],
+	diagnostics?: Diagnostic[],
+	locate?: (name: string) => Pick<Diagnostic, "file" | "span">,
+): FieldDefinition[] {
+	const byName = new Map(fields.map((field) => [field.name, { ...field }]));
+	const depth = (field: FieldDefinition) => field.name.split("[*]").length;
+	// Deepest first, so `a[*].b[*].c` is part of `a[*].b` before that joins `a`
+	const elements = fields
+		.filter((field) => field.name.includes("[*]"))
+		.sort((a, b) => depth(b) - depth(a));
+
+	for (const element of elements) {
+		const index = element.name.lastIndexOf("[*]");
+		const parentName = element.name.slice(0, index);
+		const rest = element.name.slice(index + 3);
+		const parent = byName.get(parentName);
+		const type = parent && (rest === "" || rest.startsWith("."))
+			? withElementType(
+				resolveFieldType(parent),
+				rest ? rest.slice(1).split(".") : [],
+				resolveFieldType(byName.get(element.name) ?? element),
+			)
+			: undefined;
+
+		if (!parent || !type) {
+			report(diagnostics, {
+				severity: "warning",
+				code: DiagnosticCode.Unsupported,
+				message:
+					`Field ${table}.${element.name} defines elements of ${parentName}, which is not an array field`,
+				...locate?.(element.name),
+			});
+			continue;
+		}
+		parent.surrealType = type;
+	}
+
+	return fields
+		.filter((field) => !field.name.includes("[*]"))
+		.map((field) => byName.get(field.name) ?? field);
+}
+
+/**
+ * Sets the type at `path` inside the elements of an array type
+ * @returns The updated type, or undefined when `type` is not an array
+ */
+function withElementType(
+	type: SurrealType,
+	path: string[],
+	element: SurrealType,
+): SurrealType | undefined {
+	switch (type.kind) {
+		case "option": {
+			const inner = withElementType(type.inner, path, element);
+			return inner && { ...type, inner };
+		}
+		case "array":
+		case "set": {
+			const updated = withPathType(type.element, path, element);
+			return updated && { ...type, element: updated };
+		}
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Sets the type at an object path, turning untyped values into objects
+ * @returns The updated type, or undefined when the path crosses a non-object
+ */
+function withPathType(
+	type: SurrealType,
+	path: string[],
+	element: SurrealType,
+): SurrealType | undefined {
+	if (path.length === 0) {
+		// A plain `object` definition keeps fields that were merged already
+		const next = unwrapOption(element);
+		const current = unwrapOption(type).type;
+		if (
+			next.type.kind === "object" && !next.type.fields &&
+			current.kind === "object" && current.fields
+		) {
+			return next.optional ? { kind: "option", inner: current } : current;
+		}
+		return element;
+	}
+
+	switch (type.kind) {
+		case "option": {
+			const inner = withPathType(type.inner, path, element);
+			return inner && { ...type, inner };
 		}
+		case "any":
+		case "object": {
+			const [name, ...rest] = path;
+			const fields = type.kind === "object" ? [...(type.fields ?? [])] : [];
+			const index = fields.findIndex((field) => field.name === name);
+			const updated = withPathType(
+				index === -1 ? { kind: "any" } : fields[index].type,
+				rest,
+				element,
+			);
+			if (!updated) return undefined;
+			if (index === -1) {
+				fields.push({ name, type: updated });
+			} else {
+				fields[index] = { name, type: updated };
+			}
+			return { kind: "object", fields };
+		}
+		default:
+			return undefined;
 	}
+}
+
+/**
+ * Builds a field definition from a DEFINE FIELD statement
+ * @param statement The parsed DEFINE FIELD statement
+ * @param diagnostics Collects problems; they are printed as warnings when omitted
+ * @returns The field definition
+ */
+export function buildFieldDefinition(
+	statement: DefineFieldStatement,
+	diagnostics?: Diagnostic[],
+): FieldDefinition {
+	// Fields without a TYPE clause accept any value
+	let surrealType: SurrealType = { kind: "any" };
+	if (statement.type) {
+		try {
+			surrealType = parseSurrealType(statement.type);
+		} catch (error) {
+			report(diagnostics, {
+				severity: "error",
+				code: DiagnosticCode.InvalidType,
+				message: `Field ${statement.table}.${statement.name}: ${(error as Error).message}`,
+				file: statement.file,
+				span: clauseSpan(statement, "TYPE"),
+			});
+		}
+	}
+	const { baseType, isOption, reference } = toLegacyType(surrealType);
+
+	return {
+		name: statement.name,
+		type: baseType,
+		optional: isOption,
+		// Prioritize the COMMENT clause over the comment line above the statement
+		description: statement.comment ?? statement.leadingComments.at(-1),
+		defaultValue: statement.default?.text,
+		defaultAlways: statement.defaultAlways || undefined,
+		value: statement.value?.text,
+		readonly: statement.readonly || undefined,
+		flexible: statement.flexible || undefined,
+		computed: statement.computed?.text,
+		reference,
+		surrealType,
+		assert: statement.assert?.text,
+		// Operations a field clause leaves out are allowed
+		permissions: statement.permissions
+			? buildPermissions(statement.permissions, true)
+			: undefined,
+	};
+}
+
+/**
+ * Builds a function definition from a DEFINE FUNCTION statement
+ * @param statement The parsed DEFINE FUNCTION statement
+ * @param diagnostics Collects problems; they are printed as warnings when omitted
+ * @returns The function definition
+ */
+export function buildFunctionDefinition(
+	statement: DefineFunctionStatement,
+	diagnostics?: Diagnostic[],
+): FunctionDefinition {
+	const typeOf = (text: string, label: string): SurrealType => {
+		try {
+			return parseSurrealType(text);
+		} catch (error) {
+			report(diagnostics, {
+				severity: "error",
+				code: DiagnosticCode.InvalidType,
+				message: `Function ${statement.name} ${label}: ${(error as Error).message}`,
+				file: statement.file,
+				span: statement.span,
+			});
+			return { kind: "any" };
+		}
+	};
+
+	const definition: FunctionDefinition = {
+		name: statement.name,
+		params: statement.params.map((param) => ({
+			name: param.name,
+			type: typeOf(param.type, `parameter $${param.name}`),
+		})),
+	};
 
-	// Add the last table if exists
-	if (currentTable) {
-		tables.push(currentTable);
+	const description = statement.comment ?? statement.leadingComments.at(-1);
+	if (description) definition.description = description;
+	if (statement.returnType) {
+		definition.returns = typeOf(statement.returnType, "return type");
 	}
 
-	return tables;
+	return definition;
 }
 
+/**
+ * Builds an index definition from a DEFINE INDEX statement
+ * @param statement The parsed DEFINE INDEX statement
+ * @returns The index definition
+ */
+export function buildIndexDefinition(
+	statement: DefineIndexStatement,
+): IndexDefinition {
+	const index: IndexDefinition = {
+		name: statement.name,
+		columns: statement.columns,
+		unique: statement.unique,
+		kind: statement.count
+			? "count"
+			: statement.search
+			? "search"
+			: statement.vector?.algorithm ?? "standard",
+	};
+
+	if (statement.search?.analyzer) index.analyzer = statement.search.analyzer;
+	if (statement.vector?.dimension !== undefined) {
+		index.dimension = statement.vector.dimension;
+	}
+	if (statement.vector?.distance) index.distance = statement.vector.distance;
+
+	const description = statement.comment ?? statement.leadingComments.at(-1);
+	if (description) index.description = description;
+
+	return index;
+}
 /**
  * Formats a table name to a type name (snake_case to PascalCase + "Type")
  * @param tableName The table name to format
@@ -339,6 +1036,16 @@ export function formatSchemaName(tableName: string): string {
 		.join("");
 }
 
+/**
+ * Formats a field name as a camelCase property name (e.g. created_at to
+ * createdAt), keeping leading underscores
+ * @param name The field name to format
+ * @returns Formatted property name
+ */
+export function formatPropertyName(name: string): string {
+	return name.replace(/(?!^)_+([A-Za-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
 /**
  * Validates and fixes references in table definitions
  * @param tables Array of table definitions to validate
@@ -353,6 +1060,13 @@ export function validateReferences(
 	// Process each table to fix references to non-existent tables
 	return tables.map((table) => {
 		const fixedFields = table.fields.map((field) => {
+			// Fields with a type IR drop the unknown tables wherever they are nested
+			if (field.surrealType) {
+				const surrealType = withKnownTables(field.surrealType, tableNames);
+				const { baseType, reference } = toLegacyType(surrealType);
+				return { ...field, type: baseType, reference, surrealType };
+			}
+
 			// If field has a reference to a table that doesn't exist
 			if (
 				field.reference &&
@@ -400,3 +1114,43 @@ export function validateReferences(
 		};
 	});
 }
+
+/**
+ * Removes tables that are not in `tableNames` from every record and
+ * references type nested in `type`
+ */
+function withKnownTables(
+	type: SurrealType,
+	tableNames: Set<string>,
+): SurrealType {
+	switch (type.kind) {
+		case "record":
+		case "references":
+			return {
+				...type,
+				tables: type.tables.filter((t) => tableNames.has(t.toLowerCase())),
+			};
+		case "option":
+			return { ...type, inner: withKnownTables(type.inner, tableNames) };
+		case "union":
+			return {
+				...type,
+				variants: type.variants.map((v) => withKnownTables(v, tableNames)),
+			};
+		case "array":
+		case "set":
+			return { ...type, element: withKnownTables(type.element, tableNames) };
+		case "object":
+			return type.fields
+				? {
+					...type,
+					fields: type.fields.map((f) => ({
+						...f,
+						type: withKnownTables(f.type, tableNames),
+					})),
+				}
+				: type;
+		default:
+			return type;
+	}
+}
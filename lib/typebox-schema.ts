@@ -0,0 +1,375 @@
+import { generateBanner } from "./banner.ts";
+import { jsonSchemaKeywords, translateAssert } from "./constraints.ts";
+import {
+  type ObjectTypeField,
+  type SurrealType,
+  unwrapOption,
+} from "./parser/index.ts";
+import {
+  type FieldNode,
+  fieldTree,
+  formatDefaultLiteral,
+  formatSchemaName,
+  isReadonlyField,
+  resolveFieldType,
+  type TableDefinition,
+  tableFields,
+} from "./schema.ts";
+
+/**
+ * JSON Schema keywords of a generated type, by name
+ */
+type SchemaOptions = Record<string, string>;
+
+/**
+ * A generated TypeBox expression, before `Type.Optional` is applied
+ */
+interface GeneratedSchema {
+  schema: string;
+  optional: boolean;
+}
+
+/**
+ * Generate TypeBox schemas from SurrealDB table definitions
+ *
+ * Each table gets a `Type.Object` model plus `Select`, `Insert`, `Update`
+ * and `Filter` variants, e.g. `User`, `UserSelect`, `UserInsert`,
+ * `UserUpdate` and `UserFilter`. Datetimes are ISO strings and record ids
+ * `table:id` strings, as they appear in JSON.
+ */
+export function generateTypeBoxSchemas(tables: TableDefinition[]): string {
+  const header = `${generateBanner()}
+
+// TypeBox schemas for SurrealDB types
+import { type Static, Type } from "@sinclair/typebox";
+
+/**
+ * Create a schema for \`table:id\` record id strings of a specific table
+ */
+export function recordId<T extends string>(tableName: T) {
+  return Type.TemplateLiteral([Type.Literal(tableName), Type.Literal(":"), Type.String()]);
+}
+`;
+
+  return `${header}${tables.map(generateTableSchemas).join("")}`;
+}
+
+/**
+ * Generate the model and its variants for one table
+ */
+function generateTableSchemas(table: TableDefinition): string {
+  const name = formatSchemaName(table.name);
+  const nodes = fieldTree(tableFields(table));
+
+  const modelEntries: string[] = [];
+  const selectEntries: string[] = [];
+  const insertEntries: string[] = [];
+  const updateEntries: string[] = [];
+  const filterEntries: string[] = [];
+
+  if (!nodes.some((node) => node.name === "id")) {
+    modelEntries.push(`  id: recordId("${table.name}")`);
+    selectEntries.push("  id: Type.Optional(Type.Boolean())");
+  }
+
+  for (const node of nodes) {
+    const key = propertyKey(node.name);
+    const generated = generateNodeSchema(node);
+    modelEntries.push(`  ${key}: ${withOptional(generated)}`);
+    selectEntries.push(`  ${key}: Type.Optional(Type.Boolean())`);
+
+    const filter = generateFilterSchema(node);
+    if (filter) {
+      filterEntries.push(`  ${key}: Type.Optional(${filter})`);
+    }
+
+    if (node.field && isReadonlyField(node.field)) continue;
+
+    const reference = key === node.name
+      ? `${name}.properties.${key}`
+      : `${name}.properties[${key}]`;
+    // Nested definitions the database sets, or that have a DEFAULT, change
+    // the object insert takes
+    const inserted = generateNodeSchema(node, "insert");
+    if (inserted.schema === generated.schema) {
+      const defaulted = node.field?.defaultValue !== undefined && !generated.optional;
+      insertEntries.push(
+        `  ${key}: ${defaulted ? `Type.Optional(${reference})` : reference}`,
+      );
+    } else {
+      const optional = inserted.optional || node.field?.defaultValue !== undefined;
+      insertEntries.push(`  ${key}: ${withOptional({ ...inserted, optional })}`);
+    }
+    updateEntries.push(`  ${key}: Type.Optional(${generateNodeSchema(node, "update").schema})`);
+  }
+
+  const description = table.description
+    ? `\n/**\n * ${table.description.replace(/\*\//g, "*\\/")}\n */`
+    : "";
+  const modelOptions = table.description
+    ? `, { description: ${JSON.stringify(table.description)} }`
+    : "";
+  const variant = (suffix: string, comment: string, entries: string[]) => `
+/** ${comment} */
+export const ${name}${suffix} = ${generateObject(entries)};
+
+export type ${name}${suffix} = Static<typeof ${name}${suffix}>;
+`;
+
+  return `${description}
+export const ${name} = Type.Object({
+${modelEntries.join(",\n")}
+}${modelOptions});
+
+export type ${name} = Static<typeof ${name}>;
+${variant("Select", "Fields to return from a SELECT", selectEntries)}${
+    variant("Insert", "Fields accepted when creating a record", insertEntries)
+  }${
+    variant("Update", "Fields for a partial update, all optional down through nested objects", updateEntries)
+  }${variant("Filter", "Conditions on fields for a WHERE clause", filterEntries)}`;
+}
+
+/**
+ * Which schema of a field node is generated: the stored record, the input
+ * of insert (nested fields the database sets are left out and DEFAULT fields
+ * are optional) or a partial update (nested fields all optional)
+ */
+type NodeMode = "record" | "insert" | "update";
+
+/**
+ * Generate the schema of a field node
+ */
+function generateNodeSchema(node: FieldNode, mode: NodeMode = "record"): GeneratedSchema {
+  const partial = mode === "update";
+  const field = node.field;
+  // Paths without a definition of their own are optional objects
+  const { type, optional } = field
+    ? unwrapOption(resolveFieldType(field))
+    : { type: { kind: "object" } as SurrealType, optional: true };
+  const { constraints, unsupported } = field?.assert
+    ? translateAssert(field.assert)
+    : { constraints: [], unsupported: [] };
+
+  const base = type.kind === "scalar"
+    ? ["int", "float", "decimal", "number"].includes(type.name)
+      ? "number"
+      : type.name
+    : type.kind === "set"
+    ? "array"
+    : type.kind;
+  const options: SchemaOptions = {};
+  let checkedByDatabase = unsupported.length > 0;
+  for (const constraint of constraints) {
+    if (constraint.kind === "required") continue;
+    const keywords = jsonSchemaKeywords(constraint, base);
+    if (keywords) {
+      for (const [keyword, value] of Object.entries(keywords)) {
+        options[keyword] = JSON.stringify(value);
+      }
+    } else {
+      checkedByDatabase = true;
+    }
+  }
+  // Keep the ASSERT when part of it has no JSON Schema equivalent
+  if (field?.assert && checkedByDatabase) {
+    options.$comment = JSON.stringify(`ASSERT ${field.assert}`);
+  }
+  if (field?.description) {
+    options.description = JSON.stringify(field.description);
+  }
+  const defaultValue = field?.defaultValue !== undefined && !partial
+    ? formatDefaultLiteral(field.defaultValue)
+    : undefined;
+  if (defaultValue !== undefined) {
+    options.default = defaultValue;
+  }
+
+  let schema: string;
+  if (node.children.length > 0) {
+    const entries = node.children
+      .filter((child) => mode === "record" || !child.field || !isReadonlyField(child.field))
+      .map((child) => {
+        const generated = generateNodeSchema(child, mode);
+        const optional = partial || generated.optional ||
+          (mode === "insert" && child.field?.defaultValue !== undefined);
+        return `${propertyKey(child.name)}: ${withOptional({ ...generated, optional })}`;
+      });
+    schema = call("Type.Object", [`{ ${entries.join(", ")} }`], options);
+  } else if (type.kind === "object" && type.fields) {
+    schema = call(
+      "Type.Object",
+      [`{ ${generateObjectFields(type.fields, partial).join(", ")} }`],
+      options,
+    );
+  } else {
+    schema = generateTypeSchema(type, options);
+  }
+
+  return {
+    schema,
+    optional: optional &&
+      !constraints.some((constraint) => constraint.kind === "required"),
+  };
+}
+
+/**
+ * Generate the filter of a root field: the value itself, or an object of
+ * comparison operators for numbers, datetimes and strings. Objects and
+ * arrays are not filterable.
+ */
+function generateFilterSchema(node: FieldNode): string | undefined {
+  if (node.children.length > 0 || !node.field) return undefined;
+  const { type } = unwrapOption(resolveFieldType(node.field));
+  if (["object", "array", "set", "references", "any"].includes(type.kind)) {
+    return undefined;
+  }
+
+  const value = generateTypeSchema(type);
+  const operators = type.kind === "scalar"
+    ? ["int", "float", "decimal", "number", "datetime"].includes(type.name)
+      ? ["eq", "ne", "gt", "gte", "lt", "lte"]
+      : type.name === "string"
+      ? ["eq", "ne", "contains", "startsWith", "endsWith"]
+      : []
+    : [];
+  if (operators.length === 0) return value;
+
+  const entries = operators.map((operator) => `${operator}: Type.Optional(${value})`);
+  return `Type.Union([${value}, Type.Object({ ${entries.join(", ")} })])`;
+}
+
+/**
+ * Wrap a generated schema in Type.Optional when its property is optional
+ */
+function withOptional({ schema, optional }: GeneratedSchema): string {
+  return optional ? `Type.Optional(${schema})` : schema;
+}
+
+/**
+ * Quote a property name unless it is a valid identifier
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Generate a Type.Object from property lines
+ */
+function generateObject(entries: string[]): string {
+  return entries.length > 0
+    ? `Type.Object({\n${entries.join(",\n")}\n})`
+    : "Type.Object({})";
+}
+
+/**
+ * Generate a TypeBox call, passing the JSON Schema keywords as the last
+ * (options) argument when there are any
+ */
+function call(name: string, args: string[], options: SchemaOptions = {}): string {
+  const entries = Object.entries(options).map(([key, value]) => `${key}: ${value}`);
+  if (entries.length > 0) {
+    args = [...args, `{ ${entries.join(", ")} }`];
+  }
+  return `${name}(${args.join(", ")})`;
+}
+
+/**
+ * TypeBox calls for the scalar types; others are accepted as `Type.Any`
+ */
+const SCALAR_SCHEMAS: Record<string, string> = {
+  string: "Type.String",
+  int: "Type.Integer",
+  float: "Type.Number",
+  decimal: "Type.Number",
+  number: "Type.Number",
+  bool: "Type.Boolean",
+  null: "Type.Null",
+  none: "Type.Undefined",
+};
+
+/**
+ * Generate the TypeBox expression for a SurrealQL type with the given
+ * JSON Schema keywords
+ */
+function generateTypeSchema(type: SurrealType, options: SchemaOptions = {}): string {
+  switch (type.kind) {
+    case "scalar":
+      if (type.name === "datetime") {
+        return call("Type.String", [], { format: '"date-time"', ...options });
+      }
+      return call(SCALAR_SCHEMAS[type.name] ?? "Type.Any", [], options);
+    case "option":
+      // Nested NONE values are left out of JSON
+      return call(
+        "Type.Union",
+        [`[${generateTypeSchema(type.inner)}, Type.Undefined()]`],
+        options,
+      );
+    case "union":
+      return call(
+        "Type.Union",
+        [`[${type.variants.map((variant) => generateTypeSchema(variant)).join(", ")}]`],
+        options,
+      );
+    case "literal":
+      return call("Type.Literal", [JSON.stringify(type.value)], options);
+    case "array":
+    case "set": {
+      const arrayOptions = type.maxLength === undefined
+        ? options
+        : { maxItems: String(type.maxLength), ...options };
+      return call("Type.Array", [generateTypeSchema(type.element)], arrayOptions);
+    }
+    case "record":
+      return generateRecordSchema(type.tables, options);
+    case "references":
+      return call("Type.Array", [generateRecordSchema(type.tables)], options);
+    case "object":
+      if (!type.fields) {
+        return call("Type.Record", ["Type.String()", "Type.Unknown()"], options);
+      }
+      return call(
+        "Type.Object",
+        [`{ ${generateObjectFields(type.fields).join(", ")} }`],
+        options,
+      );
+    default:
+      return call("Type.Any", [], options);
+  }
+}
+
+/**
+ * Generate the entries for the fields of an object literal type. In
+ * `partial` mode every field is optional, down through nested objects.
+ */
+function generateObjectFields(
+  fields: ObjectTypeField[],
+  partial = false,
+): string[] {
+  return fields.map((field) => {
+    const { type, optional } = unwrapOption(field.type);
+    const schema = partial && type.kind === "object" && type.fields
+      ? `Type.Object({ ${generateObjectFields(type.fields, true).join(", ")} })`
+      : generateTypeSchema(type);
+    return `${propertyKey(field.name)}: ${
+      optional || partial ? `Type.Optional(${schema})` : schema
+    }`;
+  });
+}
+
+/**
+ * Generate the schema for a record id pointing at one of `tables`
+ */
+function generateRecordSchema(tables: string[], options: SchemaOptions = {}): string {
+  if (tables.length === 0) {
+    return call("Type.String", [], options);
+  }
+  if (tables.length === 1 && Object.keys(options).length === 0) {
+    return `recordId("${tables[0]}")`;
+  }
+  return call(
+    "Type.Union",
+    [`[${tables.map((table) => `recordId("${table}")`).join(", ")}]`],
+    options,
+  );
+}
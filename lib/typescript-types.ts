@@ -0,0 +1,175 @@
+import { generateBanner } from "./banner.ts";
+import {
+  type ObjectTypeField,
+  type SurrealType,
+  unwrapOption,
+} from "./parser/index.ts";
+import {
+  type FieldNode,
+  fieldTree,
+  formatSchemaName,
+  resolveFieldType,
+  type TableDefinition,
+  tableFields,
+} from "./schema.ts";
+
+/**
+ * Generate plain TypeScript declarations from SurrealDB table definitions
+ *
+ * Each table becomes an `interface` describing its records as they appear
+ * in JSON: record ids are `table:id` template literal strings and
+ * datetimes ISO strings. The output imports nothing, so it can be written
+ * as a `.d.ts` file and used without effect or surrealdb installed.
+ */
+export function generateTypeScriptTypes(tables: TableDefinition[]): string {
+  const header = `${generateBanner()}
+
+/**
+ * Record id of a table, e.g. \`user:ada\`
+ */
+export type RecordId<Table extends string = string> = \`\${Table}:\${string}\`;
+`;
+
+  return `${header}${tables.map(generateTableInterface).join("")}`;
+}
+
+/**
+ * Generate the interface for one table
+ */
+function generateTableInterface(table: TableDefinition): string {
+  const nodes = fieldTree(tableFields(table));
+  const members: string[] = [];
+
+  if (!nodes.some((node) => node.name === "id")) {
+    members.push(`  id: RecordId<"${table.name}">;`);
+  }
+  for (const node of nodes) {
+    members.push(...generateMember(node, "  "));
+  }
+
+  const comment = [table.description, relationComment(table)]
+    .filter((line): line is string => line !== undefined);
+
+  return `
+${formatComment(comment, "")}export interface ${formatSchemaName(table.name)} {
+${members.join("\n")}
+}
+`;
+}
+
+/**
+ * Describe the endpoints of a TYPE RELATION table, e.g.
+ * `Relation from user to post`
+ */
+function relationComment(table: TableDefinition): string | undefined {
+  if (!table.relation) return undefined;
+  const endpoint = (tables: string[]) => tables.length > 0 ? tables.join(" | ") : "any table";
+  return `Relation from ${endpoint(table.relation.in)} to ${endpoint(table.relation.out)}`;
+}
+
+/**
+ * Generate the interface member for a field node, with its COMMENT as JSDoc
+ */
+function generateMember(node: FieldNode, indent: string): string[] {
+  const field = node.field;
+  // Paths without a definition of their own are optional objects
+  const { type, optional } = field
+    ? unwrapOption(resolveFieldType(field))
+    : { type: { kind: "object" } as SurrealType, optional: true };
+
+  let typeName: string;
+  if (node.children.length > 0) {
+    const members = node.children.flatMap((child) => generateMember(child, `${indent}  `));
+    if (field?.flexible) members.push(`${indent}  [key: string]: unknown;`);
+    typeName = `{\n${members.join("\n")}\n${indent}}`;
+  } else {
+    typeName = generateTypeName(type);
+  }
+
+  const comment = field?.description ? [field.description] : [];
+  return [
+    `${formatComment(comment, indent)}${indent}${propertyKey(node.name)}${
+      optional ? "?" : ""
+    }: ${typeName};`,
+  ];
+}
+
+/**
+ * TypeScript types for the scalar types; others are `unknown`
+ */
+const SCALAR_TYPES: Record<string, string> = {
+  string: "string",
+  int: "number",
+  float: "number",
+  decimal: "number",
+  number: "number",
+  bool: "boolean",
+  datetime: "string",
+  null: "null",
+  none: "undefined",
+};
+
+/**
+ * Generate the TypeScript type for a SurrealQL type
+ */
+function generateTypeName(type: SurrealType): string {
+  switch (type.kind) {
+    case "scalar":
+      return SCALAR_TYPES[type.name] ?? "unknown";
+    case "option":
+      // Nested NONE values are left out of JSON
+      return `${generateTypeName(type.inner)} | undefined`;
+    case "union":
+      return type.variants.map(generateTypeName).join(" | ");
+    case "literal":
+      return JSON.stringify(type.value);
+    case "array":
+    case "set":
+      return `Array<${generateTypeName(type.element)}>`;
+    case "record":
+      return generateRecordType(type.tables);
+    case "references":
+      return `Array<${generateRecordType(type.tables)}>`;
+    case "object":
+      if (!type.fields) return "Record<string, unknown>";
+      return `{ ${generateObjectMembers(type.fields).join(" ")} }`;
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Generate the members of an object literal type
+ */
+function generateObjectMembers(fields: ObjectTypeField[]): string[] {
+  return fields.map((field) => {
+    const { type, optional } = unwrapOption(field.type);
+    return `${propertyKey(field.name)}${optional ? "?" : ""}: ${generateTypeName(type)};`;
+  });
+}
+
+/**
+ * Generate the type of a record id pointing at one of `tables`
+ */
+function generateRecordType(tables: string[]): string {
+  if (tables.length === 0) return "RecordId";
+  return `RecordId<${tables.map((table) => JSON.stringify(table)).join(" | ")}>`;
+}
+
+/**
+ * Format lines as a JSDoc comment, or nothing when there are none
+ */
+function formatComment(lines: string[], indent: string): string {
+  if (lines.length === 0) return "";
+  const body = lines
+    .flatMap((line) => line.replace(/\*\//g, "*\\/").split("\n"))
+    .map((line) => `${indent} * ${line}`.trimEnd());
+  return `${indent}/**\n${body.join("\n")}\n${indent} */\n`;
+}
+
+/**
+ * Quote a property name unless it is a valid identifier
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
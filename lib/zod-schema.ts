@@ -0,0 +1,486 @@
+import { generateBanner } from "./banner.ts";
+import {
+  type Constraint,
+  FORMAT_PATTERNS,
+  translateAssert,
+} from "./constraints.ts";
+import {
+  type ObjectTypeField,
+  type SurrealType,
+  unwrapOption,
+} from "./parser/index.ts";
+import {
+  type FieldDefinition,
+  type FieldNode,
+  fieldTree,
+  formatDefaultLiteral,
+  isReadonlyField,
+  resolveFieldType,
+  type TableDefinition,
+  tableFields,
+} from "./schema.ts";
+
+/**
+ * Format a table name as a namespace name
+ */
+function formatNamespaceName(tableName: string): string {
+  return tableName.charAt(0).toUpperCase() + tableName.slice(1);
+}
+
+/**
+ * A generated Zod expression, before `.optional()` is applied
+ */
+interface GeneratedSchema {
+  schema: string;
+  optional: boolean;
+  /** Whether the schema fills in a DEFAULT, which makes the input optional */
+  hasDefault: boolean;
+}
+
+/**
+ * Generate Zod schemas from SurrealDB table definitions
+ *
+ * Each table gets the same namespace as the Effect backend: `Fields`, the
+ * record schema, `Create` / `Insert`, `Merge`, `Content`, `Patch` and
+ * `update`. Typed function callers are only generated for Effect.
+ */
+export function generateZodSchemas(tables: TableDefinition[]): string {
+  const namespaces = tables
+    .map(generateTableNamespace)
+    .join("\n");
+  const surrealdb = namespaces.includes("z.instanceof(Decimal)")
+    ? "Decimal, RecordId"
+    : "RecordId";
+
+  const header = `${generateBanner()}
+
+// Zod schemas for SurrealDB types
+import { z } from "zod";
+import { ${surrealdb} } from "surrealdb";
+
+/**
+ * Create a RecordId schema for a specific table; \`table:id\` strings
+ * decode to a RecordId
+ */
+export function recordId<T extends string>(tableName: T) {
+  return z
+    .custom<\`\${T}:\${string}\`>(
+      (value) => typeof value === "string" && value.startsWith(\`\${tableName}:\`),
+      { message: \`Expected a record id for table \${tableName}\` },
+    )
+    .transform((value) => new RecordId(tableName, value.slice(tableName.length + 1)));
+}
+`;
+
+  return `${header}${namespaces}`;
+}
+
+/**
+ * Generate the namespace of one table
+ */
+function generateTableNamespace(table: TableDefinition): string {
+  const name = formatNamespaceName(table.name);
+  const nodes = fieldTree(tableFields(table));
+
+  const fieldEntries: string[] = [];
+  const createEntries: string[] = [];
+  const mergeEntries: string[] = [];
+  const patchOperations: string[] = [];
+  const removablePaths: string[] = [];
+
+  if (!nodes.some((node) => node.name === "id")) {
+    fieldEntries.push(`    id: recordId("${table.name}")`);
+  }
+
+  for (const node of nodes) {
+    const generated = generateNodeSchema(node);
+    fieldEntries.push(
+      `${generateAssertComment(node.field)}    ${propertyKey(node.name)}: ${withOptional(generated)}`,
+    );
+
+    if (node.field && isReadonlyField(node.field)) continue;
+
+    const key = propertyKey(node.name);
+    const reference = key === node.name ? `Fields.${key}` : `Fields[${key}]`;
+    // Nested definitions the database sets, or that have a DEFAULT, change
+    // the object create takes
+    const created = generateNodeSchema(node, "create");
+    if (created.schema === generated.schema) {
+      const defaulted = !generated.optional && optionalOnCreate(node.field, generated);
+      createEntries.push(`    ${key}: ${defaulted ? `${reference}.optional()` : reference}`);
+    } else {
+      createEntries.push(
+        `    ${key}: ${withOptional({ ...created, optional: optionalOnCreate(node.field, created) })}`,
+      );
+    }
+    mergeEntries.push(
+      `    ${propertyKey(node.name)}: ${generateNodeSchema(node, "merge").schema}.optional()`,
+    );
+
+    for (const [path, schema] of patchPaths(node)) {
+      const pointer = JSON.stringify(
+        path.map((segment) => `/${segment.replace(/~/g, "~0").replace(/\//g, "~1")}`)
+          .join(""),
+      );
+      patchOperations.push(
+        `    z.object({ op: z.enum(["add", "replace", "test"]), path: z.literal(${pointer}), value: ${schema.schema} })`,
+      );
+      if (schema.optional) removablePaths.push(pointer);
+    }
+  }
+
+  if (removablePaths.length > 0) {
+    patchOperations.push(
+      `    z.object({ op: z.literal("remove"), path: z.enum([${removablePaths.join(", ")}]) })`,
+    );
+  }
+
+  const description = table.description
+    ? `\n/**\n * ${table.description.replace(/\*\//g, "*\\/")}\n */`
+    : "";
+
+  return `${description}
+export namespace ${name} {
+  export const tableName = "${table.name}" as const;
+
+  export const Fields = {
+${fieldEntries.join(",\n")}
+  };
+
+  export const ${name} = z.object(Fields);
+
+  export type Type = z.infer<typeof ${name}>;
+
+  /** Fields accepted when creating a record */
+  export const Create = ${generateObject(createEntries)};
+
+  export type Create = z.input<typeof Create>;
+
+  /** Fields accepted by INSERT, the same as for create */
+  export const Insert = Create;
+
+  /** Fields for UPDATE ... MERGE, all optional down through nested objects */
+  export const Merge = ${generateObject(mergeEntries)};
+
+  export type Merge = z.input<typeof Merge>;
+
+  /** UPDATE ... CONTENT replaces the whole record, so it takes the fields of create */
+  export const Content = Create;
+
+  /** JSON Patch operations for UPDATE ... PATCH on the writable field paths */
+  export const Patch = ${generatePatchArray(patchOperations)};
+
+  export type Patch = z.input<typeof Patch>;
+
+  export const update = Merge.extend({
+    id: recordId("${table.name}"),
+  });
+}`;
+}
+
+/**
+ * Which schema of a field node is generated: the stored record, the input
+ * of create (nested fields the database sets are left out and DEFAULT fields
+ * are optional) or UPDATE ... MERGE (nested fields all optional)
+ */
+type NodeMode = "record" | "create" | "merge";
+
+/**
+ * Generate the schema of a field node
+ */
+function generateNodeSchema(
+  node: FieldNode,
+  mode: NodeMode = "record",
+): GeneratedSchema {
+  const partial = mode === "merge";
+  const field = node.field;
+  // Paths without a definition of their own are optional objects
+  const { type, optional } = field
+    ? unwrapOption(resolveFieldType(field))
+    : { type: { kind: "object" } as SurrealType, optional: true };
+  const assertion = field?.assert
+    ? translateAssert(field.assert)
+    : { constraints: [], unsupported: [] };
+  const required = assertion.constraints.some((constraint) => constraint.kind === "required");
+
+  let schema: string;
+  if (node.children.length > 0) {
+    const entries = node.children
+      .filter((child) => mode === "record" || !child.field || !isReadonlyField(child.field))
+      .map((child) => {
+        const generated = generateNodeSchema(child, mode);
+        const optional = partial ||
+          (mode === "create" ? optionalOnCreate(child.field, generated) : generated.optional);
+        return `${propertyKey(child.name)}: ${withOptional({ ...generated, optional })}`;
+      });
+    schema = `z.object({ ${entries.join(", ")} })`;
+  } else if (type.kind === "object" && type.fields) {
+    schema = `z.object({ ${generateObjectFields(type.fields, partial).join(", ")} })`;
+  } else {
+    schema = generateTypeSchema(type);
+  }
+  if (field?.flexible && schema.startsWith("z.object(")) {
+    schema = `${schema}.passthrough()`;
+  }
+
+  const base = type.kind === "scalar"
+    ? ["int", "float"].includes(type.name)
+      ? "number"
+      : type.name === "number"
+      ? "number | decimal"
+      : type.name
+    : type.kind === "set"
+    ? "array"
+    : type.kind;
+  for (const constraint of assertion.constraints) {
+    if (constraint.kind === "required") continue;
+    schema += generateConstraintCheck(constraint, base) ?? "";
+  }
+
+  if (field?.description) {
+    schema += `.describe(${JSON.stringify(field.description)})`;
+  }
+
+  // A decimal DEFAULT is a plain number, so the database fills it in
+  const defaultValue = field?.defaultValue !== undefined && !isDecimal(type)
+    ? formatDefaultLiteral(field.defaultValue)
+    : undefined;
+  if (defaultValue !== undefined && !partial) {
+    schema += `.default(${defaultValue})`;
+  }
+
+  return {
+    schema,
+    optional: optional && !required,
+    hasDefault: defaultValue !== undefined && !partial,
+  };
+}
+
+/**
+ * The field paths of a node that PATCH operations may target: the node
+ * itself and every writable nested definition, with the schema create takes
+ */
+function patchPaths(
+  node: FieldNode,
+  path: string[] = [],
+): Array<[string[], GeneratedSchema]> {
+  const current = [...path, node.name];
+  const paths: Array<[string[], GeneratedSchema]> = node.field
+    ? [[current, generateNodeSchema(node, "create")]]
+    : [];
+
+  for (const child of node.children) {
+    if (child.field && isReadonlyField(child.field)) continue;
+    paths.push(...patchPaths(child, current));
+  }
+
+  return paths;
+}
+
+/**
+ * Whether create may leave a field out: it is optional, or has a DEFAULT
+ * the schema cannot fill in itself
+ */
+function optionalOnCreate(
+  field: FieldDefinition | undefined,
+  generated: GeneratedSchema,
+): boolean {
+  return generated.optional ||
+    (field?.defaultValue !== undefined && !generated.hasDefault);
+}
+
+/**
+ * Append `.optional()` when the property is optional
+ */
+function withOptional({ schema, optional }: GeneratedSchema): string {
+  return optional ? `${schema}.optional()` : schema;
+}
+
+/**
+ * Quote a property name unless it is a valid identifier
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Generate a z.object from property lines
+ */
+function generateObject(entries: string[]): string {
+  return entries.length > 0
+    ? `z.object({\n${entries.join(",\n")}\n  })`
+    : "z.object({})";
+}
+
+/**
+ * Generate the array of patch operations
+ */
+function generatePatchArray(operations: string[]): string {
+  // Without writable fields the only valid patch is an empty one
+  if (operations.length === 0) return "z.tuple([])";
+  if (operations.length === 1) return `z.array(\n${operations[0]}\n  )`;
+  return `z.array(z.union([\n${operations.join(",\n")},\n  ]))`;
+}
+
+/**
+ * Comment that keeps ASSERT conditions Zod can't check
+ */
+function generateAssertComment(field?: FieldDefinition): string {
+  if (!field?.assert) return "";
+  const { unsupported } = translateAssert(field.assert);
+  return unsupported.length > 0
+    ? `    /** Checked by the database: ASSERT ${unsupported.join(" AND ").replace(/\*\//g, "*\\/")} */\n`
+    : "";
+}
+
+/**
+ * Base types whose values may be SDK Decimals, which can't be compared with
+ * literals
+ */
+const DECIMAL_BASES = ["decimal", "number | decimal"];
+
+/**
+ * Whether values of `type` are SDK Decimals
+ */
+function isDecimal(type: SurrealType): boolean {
+  return type.kind === "scalar" && type.name === "decimal";
+}
+
+/**
+ * Generate a single Zod check, or undefined when the constraint does not
+ * fit the base type
+ */
+function generateConstraintCheck(
+  constraint: Exclude<Constraint, { kind: "required" }>,
+  base: string,
+): string | undefined {
+  switch (constraint.kind) {
+    case "format":
+      return base === "string"
+        ? `.regex(/${FORMAT_PATTERNS[constraint.format]}/)`
+        : undefined;
+    case "pattern":
+      return base === "string"
+        ? `.regex(/${constraint.source}/${constraint.flags})`
+        : undefined;
+    case "compare": {
+      // Decimals have no ordering of their own, so they compare as numbers
+      if (DECIMAL_BASES.includes(base)) {
+        return `.refine((value) => Number(String(value)) ${constraint.operator} ${constraint.value})`;
+      }
+      if (base !== "number") return undefined;
+      const check = { ">": "gt", ">=": "gte", "<": "lt", "<=": "lte" }[constraint.operator];
+      return `.${check}(${constraint.value})`;
+    }
+    case "length": {
+      if (base !== constraint.of) return undefined;
+      switch (constraint.operator) {
+        case ">":
+          return `.min(${constraint.value + 1})`;
+        case ">=":
+          return `.min(${constraint.value})`;
+        case "<":
+          return `.max(${constraint.value - 1})`;
+        case "<=":
+          return `.max(${constraint.value})`;
+        case "=":
+          return `.length(${constraint.value})`;
+      }
+      return undefined;
+    }
+    case "equals":
+      if (DECIMAL_BASES.includes(base)) return undefined;
+      return `.refine((value) => value === ${JSON.stringify(constraint.value)})`;
+    case "notEquals":
+      if (DECIMAL_BASES.includes(base)) return undefined;
+      return `.refine((value) => value !== ${JSON.stringify(constraint.value)})`;
+    case "oneOf":
+      if (DECIMAL_BASES.includes(base)) return undefined;
+      return `.refine((value) => (${JSON.stringify(constraint.values)} as unknown[]).includes(value))`;
+  }
+}
+
+/**
+ * Zod schemas of the scalar types; others are accepted as `z.any()`
+ */
+const SCALAR_SCHEMAS: Record<string, string> = {
+  string: "z.string()",
+  int: "z.number().int()",
+  float: "z.number()",
+  decimal: "z.instanceof(Decimal)",
+  // Numbers keep their kind, so decimals come back as Decimal
+  number: "z.union([z.number(), z.instanceof(Decimal)])",
+  bool: "z.boolean()",
+  datetime: "z.date()",
+  null: "z.null()",
+  none: "z.undefined()",
+};
+
+/**
+ * Generate the Zod schema expression for a SurrealQL type
+ */
+function generateTypeSchema(type: SurrealType): string {
+  switch (type.kind) {
+    case "any":
+      return "z.any()";
+    case "scalar":
+      return SCALAR_SCHEMAS[type.name] ?? "z.any()";
+    case "option":
+      return `${generateTypeSchema(type.inner)}.optional()`;
+    case "union": {
+      const variants = type.variants.filter(
+        (variant) => !(variant.kind === "scalar" && variant.name === "null"),
+      );
+      const schema = variants.length === 1
+        ? generateTypeSchema(variants[0])
+        : `z.union([${variants.map(generateTypeSchema).join(", ")}])`;
+      return variants.length < type.variants.length ? `${schema}.nullable()` : schema;
+    }
+    case "literal":
+      return `z.literal(${JSON.stringify(type.value)})`;
+    case "array":
+    case "set": {
+      const schema = `z.array(${generateTypeSchema(type.element)})`;
+      return type.maxLength === undefined ? schema : `${schema}.max(${type.maxLength})`;
+    }
+    case "record":
+      return generateRecordSchema(type.tables);
+    case "references":
+      return `z.array(${generateRecordSchema(type.tables)})`;
+    case "object":
+      if (!type.fields) return "z.record(z.string(), z.unknown())";
+      return `z.object({ ${generateObjectFields(type.fields).join(", ")} })`;
+    default:
+      return "z.any()";
+  }
+}
+
+/**
+ * Generate the entries for the fields of an object literal type. In
+ * `partial` mode every field is optional, down through nested objects.
+ */
+function generateObjectFields(
+  fields: ObjectTypeField[],
+  partial = false,
+): string[] {
+  return fields.map((field) => {
+    const { type, optional } = unwrapOption(field.type);
+    const schema = partial && type.kind === "object" && type.fields
+      ? `z.object({ ${generateObjectFields(type.fields, true).join(", ")} })`
+      : generateTypeSchema(type);
+    return `${propertyKey(field.name)}: ${optional || partial ? `${schema}.optional()` : schema}`;
+  });
+}
+
+/**
+ * Generate the schema for a record id pointing at one of `tables`
+ */
+function generateRecordSchema(tables: string[]): string {
+  if (tables.length === 0) {
+    return "z.instanceof(RecordId)";
+  }
+  if (tables.length === 1) {
+    return `recordId("${tables[0]}")`;
+  }
+  return `z.union([${tables.map((table) => `recordId("${table}")`).join(", ")}])`;
+}
@@ -14,6 +14,15 @@ export type {
 
 // Export core functionality
 
+// Export the generator plugin API
+export type {
+	GeneratedFile,
+	Generator,
+	SchemaGeneratorOptions,
+	SchemaModel,
+} from "./lib/generator.ts";
+export { schemaGenerator } from "./lib/generator.ts";
+
 // Export command handlers
 export {
 	handleCommand,
@@ -28,6 +37,7 @@ export {
 // Export DB functionality
 export {
 	fetchSchemaFromDB,
+	fetchSchemaModelFromDB,
 	exportSchemaFromDB,
 	applySchemaToDatabase,
 	checkDBConnection,
@@ -47,7 +57,7 @@ if (import.meta.main) {
 		if (args.length === 0) {
 			const { log, spinner } = await import("@clack/prompts");
 			const chalk = await import("chalk");
-			const { processDB } = await import("./lib/commands.ts");
+			const { processDB, processFile } = await import("./lib/commands.ts");
 
 			const configSpinner = spinner();
 			configSpinner.start("Checking for configuration files");
@@ -62,7 +72,13 @@ if (import.meta.main) {
 					`Found ${chalk.default.green(configType)} configuration`,
 				);
 
-				if (config.db?.url) {
+				if (config.input) {
+					configSpinner.stop(
+						`Running with ${chalk.default.green(configType)} configuration`,
+					);
+					await processFile(); // Reads the input files from the config
+					// processFile will call Deno.exit
+				} else if (config.db?.url) {
 					configSpinner.message(
 						`Using database URL: ${chalk.default.cyan(config.db.url)}`,
 					);
@@ -74,10 +90,10 @@ if (import.meta.main) {
 				} else {
 					configSpinner.stop(
 						chalk.default.yellow(
-							"Configuration found but missing database URL",
+							"Configuration found but missing input files or database URL",
 						),
 					);
-					log.error("Config found but no database URL specified.");
+					log.error("Config found but no input files or database URL specified.");
 					log.info("Please provide an input file or database URL.");
 					Deno.exit(1);
 				}
@@ -1,4 +1,4 @@
-import { assertStringIncludes } from "@std/assert";
+import { assertRejects, assertStringIncludes } from "@std/assert";
 import { processFile } from "../lib/commands.ts";
 import { ensureDir } from "@std/fs";
 
@@ -31,6 +31,20 @@ DEFINE FIELD created_at ON user TYPE datetime;
 		assertStringIncludes(generatedContent, "import { Schema } from");
 	});
 
+	await t.step("--check fails only when the output is out of date", async () => {
+		const outputFile = `${testDir}/schema.ts`;
+		const check = () =>
+			processFile(`${testDir}/test_schema.surql`, outputFile, undefined, {
+				noExit: true,
+				isTest: true,
+				check: true,
+			});
+		await check();
+
+		await Deno.writeTextFile(outputFile, "// edited\n", { append: true });
+		await assertRejects(check, Error, "Generated output is out of date");
+	});
+
 	// Cleanup
 	await t.step("cleanup", async () => {
 		try {
@@ -1,5 +1,11 @@
 import { assertEquals } from "@std/assert";
-import { normalizeSchemaInfo, parseFieldDefinition } from "../../lib/db/parser.ts";
+import {
+  normalizeSchemaInfo,
+  parseFieldDefinition,
+  parseFunctionDefinitions,
+  parseIndexDefinitions,
+  parseTableDefinition
+} from "../../lib/db/parser.ts";
 
 Deno.test("parseFieldDefinition - basic string type", () => {
   const fieldDef = "DEFINE FIELD username ON user TYPE string;";
@@ -59,6 +65,74 @@ Deno.test("parseFieldDefinition - array type", () => {
   assertEquals(result.optional, false);
 });
 
+Deno.test("parseFieldDefinition - keeps nested type structure", () => {
+  const fieldDef =
+    "DEFINE FIELD friends ON user TYPE option<array<option<record<user>>>> COMMENT 'Friends' PERMISSIONS FULL";
+  const result = parseFieldDefinition(fieldDef);
+
+  assertEquals(result.type, "array");
+  assertEquals(result.optional, true);
+  assertEquals(result.description, "Friends");
+  assertEquals(result.surrealType, {
+    kind: "option",
+    inner: {
+      kind: "array",
+      element: { kind: "option", inner: { kind: "record", tables: ["user"] } },
+    },
+  });
+});
+
+Deno.test("parseIndexDefinitions - unique and composite indexes", () => {
+  const result = parseIndexDefinitions({
+    email_idx: "DEFINE INDEX email_idx ON user FIELDS email UNIQUE",
+    name_idx: "DEFINE INDEX name_idx ON user FIELDS first_name, last_name",
+  });
+
+  assertEquals(result, [
+    { name: "email_idx", columns: ["email"], unique: true, kind: "standard" },
+    { name: "name_idx", columns: ["first_name", "last_name"], unique: false, kind: "standard" },
+  ]);
+  assertEquals(parseIndexDefinitions(undefined), []);
+});
+
+Deno.test("parseFunctionDefinitions - signatures from INFO FOR DB", () => {
+  const result = parseFunctionDefinitions({
+    "user::rename": "DEFINE FUNCTION fn::user::rename($id: record<user>, $name: string) -> object { RETURN UPDATE $id SET name = $name; } COMMENT 'Rename a user' PERMISSIONS FULL",
+    greet: "DEFINE FUNCTION fn::greet($name: string) { RETURN 'Hello ' + $name; } PERMISSIONS FULL",
+  });
+
+  assertEquals(result, [
+    {
+      name: "fn::greet",
+      params: [{ name: "name", type: { kind: "scalar", name: "string" } }],
+    },
+    {
+      name: "fn::user::rename",
+      params: [
+        { name: "id", type: { kind: "record", tables: ["user"] } },
+        { name: "name", type: { kind: "scalar", name: "string" } },
+      ],
+      description: "Rename a user",
+      returns: { kind: "object" },
+    },
+  ]);
+  assertEquals(parseFunctionDefinitions(undefined), []);
+});
+
+Deno.test("parseTableDefinition - relation table", () => {
+  const result = parseTableDefinition(
+    "DEFINE TABLE likes TYPE RELATION IN user OUT post ENFORCED SCHEMAFULL COMMENT 'Likes' PERMISSIONS NONE",
+  );
+
+  assertEquals(result, {
+    description: "Likes",
+    tableType: "relation",
+    relation: { in: ["user"], out: ["post"], enforced: true },
+    permissions: { select: false, create: false, update: false, delete: false },
+  });
+  assertEquals(parseTableDefinition({ name: "user" }), {});
+});
+
 Deno.test("normalizeSchemaInfo - empty input", () => {
   const result = normalizeSchemaInfo(null);
   assertEquals(result, { tables: {} });
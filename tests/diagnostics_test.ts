@@ -0,0 +1,78 @@
+import { assertEquals } from "@std/assert";
+import { formatDiagnostic, hasFailures } from "../lib/diagnostics.ts";
+import { parseSurQLDocument, parseSurQLSources } from "../lib/schema.ts";
+
+Deno.test("parseSurQLDocument reports diagnostics with positions and codes", () => {
+	const { tables, diagnostics } = parseSurQLDocument(
+		`DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE strin;
+DEFINE FIELD tags[*] ON user TYPE string;
+DEFINE FIELD boss ON user TYPE record<manager>;
+DEFINE EVENT created ON user WHEN $event = "CREATE" THEN {};
+`,
+		"schema.surql",
+	);
+
+	// The field with the invalid type is kept with an `any` type
+	assertEquals(tables[0].fields.map((field) => field.name), ["name", "boss"]);
+	assertEquals(diagnostics.map(formatDiagnostic), [
+		"schema.surql:2:32 - error SQ002: Field user.name: Invalid type 'strin': unknown type 'strin'",
+		"schema.surql:3:1 - warning SQ003: Field user.tags[*] defines elements of tags, which is not an array field",
+		"schema.surql:4:32 - warning SQ004: Field user.boss references table 'manager', which is not defined",
+		"schema.surql:5:1 - info SQ005: DEFINE EVENT is not part of the generated schema",
+	]);
+});
+
+Deno.test("parseSurQLDocument reports syntax errors", () => {
+	const { diagnostics } = parseSurQLDocument("DEFINE TABLE user COMMENT 'unterminated;");
+
+	assertEquals(diagnostics[0].severity, "error");
+	assertEquals(diagnostics[0].code, "SQ001");
+	assertEquals(diagnostics[0].span?.start.line, 1);
+});
+
+Deno.test("hasFailures treats warnings as failures only in strict mode", () => {
+	const warning = [{ severity: "warning", code: "SQ004", message: "" }] as const;
+
+	assertEquals(hasFailures([...warning]), false);
+	assertEquals(hasFailures([...warning], true), true);
+	assertEquals(hasFailures([]), false);
+});
+
+Deno.test("parseSurQLSources merges files and reports duplicate tables", () => {
+	const { tables, diagnostics } = parseSurQLSources([
+		{
+			path: "users.surql",
+			content: "DEFINE TABLE user SCHEMAFULL;\nDEFINE FIELD name ON user TYPE string;",
+		},
+		{
+			path: "billing.surql",
+			content: "DEFINE TABLE invoice SCHEMAFULL;\nDEFINE FIELD owner ON invoice TYPE record<user>;",
+		},
+		{ path: "legacy.surql", content: "\nDEFINE TABLE user SCHEMALESS;" },
+	]);
+
+	assertEquals(tables.map((table) => table.name), ["user", "invoice"]);
+	assertEquals(tables[1].fields[0].reference, { table: "user", isOption: false });
+	assertEquals(diagnostics.map(formatDiagnostic), [
+		"legacy.surql:2:1 - error SQ006: Table user is already defined in users.surql:1",
+	]);
+});
+
+Deno.test("parseSurQLDocument reports redefinitions and missing removals", () => {
+	const { tables, diagnostics } = parseSurQLDocument(
+		`DEFINE TABLE user;
+DEFINE FIELD name ON user TYPE string;
+DEFINE FIELD name ON user TYPE int;
+REMOVE FIELD email ON user;
+REMOVE TABLE IF EXISTS session;
+`,
+		"changes.surql",
+	);
+
+	assertEquals(tables[0].fields.map((field) => field.type), ["string"]);
+	assertEquals(diagnostics.map(formatDiagnostic), [
+		"changes.surql:3:1 - warning SQ007: Field user.name is already defined at changes.surql:2; use OVERWRITE to replace it",
+		"changes.surql:4:1 - warning SQ008: Field user.email does not exist",
+	]);
+});
@@ -0,0 +1,97 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { Schema } from "effect";
+import { generateEffectModules } from "../lib/effect-schema-class.ts";
+import { parseSurQL, parseSurQLFunctions, validateReferences } from "../lib/schema.ts";
+import { type EffectNamespace, importGenerated } from "./utils/generated.ts";
+
+const schema = `
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE string;
+DEFINE TABLE post SCHEMAFULL;
+DEFINE FIELD title ON post TYPE string;
+DEFINE FIELD author ON post TYPE record<user>;
+DEFINE FIELD links ON post TYPE array<record>;
+DEFINE FUNCTION fn::greet($name: string) -> string { RETURN "Hello " + $name; };
+`;
+
+function generate() {
+	return generateEffectModules(
+		validateReferences(parseSurQL(schema)),
+		parseSurQLFunctions(schema),
+	);
+}
+
+Deno.test("Effect modules are written per table with a helpers module and an index", () => {
+	const { index, modules } = generate();
+
+	assertEquals(Object.keys(modules), ["helpers.ts", "user.ts", "post.ts", "functions.ts"]);
+	assertStringIncludes(
+		index,
+		`export * from "./helpers.ts";
+export * as User from "./user.ts";
+export * as Post from "./post.ts";
+export * as fn from "./functions.ts";`,
+	);
+	assertEquals(modules["post.ts"].includes("namespace"), false);
+	assertStringIncludes(
+		modules["post.ts"],
+		`import { Schema } from "effect";
+import { RecordId } from "surrealdb";
+import { recordId } from "./helpers.ts";
+`,
+	);
+	assertStringIncludes(modules["post.ts"], "export class Post extends Schema.Class<Post>");
+	assertEquals(modules["user.ts"].includes('from "surrealdb"'), false);
+});
+
+Deno.test("Effect modules import the record ids of linked tables", async () => {
+	const { index, modules } = generateEffectModules(parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD best_post ON user TYPE option<record<post>>;
+DEFINE TABLE post SCHEMAFULL;
+DEFINE FIELD author ON post TYPE record<user>;
+`));
+
+	assertStringIncludes(modules["post.ts"], 'import { Id as UserId } from "./user.ts";');
+	assertStringIncludes(modules["post.ts"], 'export const Id = recordId("post");');
+	assertStringIncludes(modules["post.ts"], "id: Id,");
+	assertStringIncludes(modules["post.ts"], "author: Schema.suspend(() => UserId)");
+	assertStringIncludes(modules["user.ts"], 'import { Id as PostId } from "./post.ts";');
+
+	// The two modules import each other
+	const { User } = await importGenerated<{ User: EffectNamespace }>(index, modules);
+	const user = Schema.decodeUnknownSync(User.Create)({ best_post: "post:hello" }) as {
+		best_post: unknown;
+	};
+	assertEquals(String(user.best_post), "post:hello");
+});
+
+Deno.test("Effect modules use the configured import extension", () => {
+	const { index, modules } = generateEffectModules(
+		parseSurQL("DEFINE TABLE user SCHEMAFULL;"),
+		[],
+		{ importExtension: ".js" },
+	);
+
+	assertStringIncludes(index, 'export * as User from "./user.js";');
+	assertStringIncludes(modules["user.ts"], 'import { recordId } from "./helpers.js";');
+});
+
+Deno.test("Effect modules keep the namespaced API through the index", async () => {
+	const { index, modules } = generate();
+	const generated = await importGenerated<{
+		Post: EffectNamespace;
+		User: EffectNamespace & { User: { tableName: string } };
+		fn: Record<string, unknown>;
+	}>(index, modules);
+
+	const post = Schema.decodeUnknownSync(generated.Post.Create)({
+		title: "Hello",
+		author: "user:ada",
+		links: [],
+	}) as { author: unknown };
+	assertEquals(String(post.author), "user:ada");
+	assertEquals(String(Schema.decodeUnknownSync(generated.User.Id)("user:ada")), "user:ada");
+	assertEquals(generated.User.User.tableName, "user");
+	assertEquals(typeof generated.fn.greet, "function");
+});
@@ -1,6 +1,7 @@
 import { assertEquals } from "@std/assert";
+import { FORMAT_PATTERNS, translateAssert } from "../lib/constraints.ts";
 import { generateEffectSchemas } from "../lib/effect-schema-class.ts";
-import type { TableDefinition } from "../lib/schema.ts";
+import { parseSurQL, type TableDefinition } from "../lib/schema.ts";
 
 Deno.test({
 	name: "Effect Schema constraints generation",
@@ -121,3 +122,60 @@ Deno.test({
 		);
 	},
 });
+
+Deno.test("translateAssert recognises common assertions", () => {
+	assertEquals(translateAssert("string::is::email($value)").constraints, [
+		{ kind: "format", format: "email" },
+	]);
+	assertEquals(
+		translateAssert("$value = NONE OR (0 < $value AND string::len($value) <= 280)"),
+		{
+			constraints: [
+				{ kind: "compare", operator: ">", value: 0 },
+				{ kind: "length", of: "string", operator: "<=", value: 280 },
+			],
+			unsupported: [],
+		},
+	);
+	assertEquals(translateAssert("$value INSIDE ['a', 'b']").constraints, [
+		{ kind: "oneOf", values: ["a", "b"] },
+	]);
+	assertEquals(translateAssert("$value != NONE").constraints, [{ kind: "required" }]);
+	assertEquals(translateAssert("$value > 1 AND $value < time::now()"), {
+		constraints: [{ kind: "compare", operator: ">", value: 1 }],
+		unsupported: ["$value < time::now()"],
+	});
+});
+
+Deno.test("generateEffectSchemas turns ASSERT clauses into filters", () => {
+	const output = generateEffectSchemas(parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD email ON user TYPE string ASSERT string::is::email($value);
+DEFINE FIELD age ON user TYPE option<int> ASSERT $value = NONE OR $value > 0;
+DEFINE FIELD bio ON user TYPE string ASSERT string::len($value) <= 280;
+DEFINE FIELD role ON user TYPE string ASSERT $value INSIDE ['a','b'];
+DEFINE FIELD name ON user TYPE option<string> ASSERT $value != NONE;
+DEFINE FIELD joined ON user TYPE datetime ASSERT $value < time::now();
+`));
+	const fieldLine = (name: string) =>
+		output.split("\n").find((line) => line.trim().startsWith(`${name}:`))?.trim();
+
+	assertEquals(
+		fieldLine("email"),
+		`email: Schema.String.pipe(Schema.pattern(/${FORMAT_PATTERNS.email}/)),`,
+	);
+	assertEquals(
+		fieldLine("age"),
+		"age: Schema.optional(Schema.Number.pipe(Schema.int()).pipe(Schema.greaterThan(0))),",
+	);
+	assertEquals(fieldLine("bio"), "bio: Schema.String.pipe(Schema.maxLength(280)),");
+	assertEquals(
+		fieldLine("role"),
+		"role: Schema.Literal(...roleValues),",
+	);
+	assertEquals(fieldLine("name"), "name: Schema.String,");
+	assertEquals(
+		fieldLine("joined"),
+		"joined: Schema.DateFromSelf.annotations({ surrealAssert: '$value < time::now()' })",
+	);
+});
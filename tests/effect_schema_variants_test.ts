@@ -0,0 +1,123 @@
+import { assertEquals } from "@std/assert";
+import { Schema } from "effect";
+import { generateEffectSchemas } from "../lib/effect-schema-class.ts";
+import { parseSurQL } from "../lib/schema.ts";
+import { type EffectNamespace, importGenerated } from "./utils/generated.ts";
+
+/**
+ * Extract the source of `export const <name> = ...;` from generated output
+ */
+function generatedConst(output: string, name: string): string | undefined {
+	const start = output.indexOf(`export const ${name} = `);
+	if (start === -1) return undefined;
+	return output.slice(start, output.indexOf(";", start) + 1);
+}
+
+Deno.test("Create schema leaves out id and database-set fields", () => {
+	const output = generateEffectSchemas(parseSurQL(`
+DEFINE TABLE post SCHEMAFULL;
+DEFINE FIELD title ON post TYPE string;
+DEFINE FIELD body ON post TYPE option<string>;
+DEFINE FIELD status ON post TYPE string DEFAULT "draft";
+DEFINE FIELD slug ON post TYPE string VALUE string::lowercase(title);
+DEFINE FIELD created_at ON post TYPE datetime DEFAULT time::now() READONLY;
+DEFINE FIELD likes ON post COMPUTED count(<-liked);
+`));
+
+	assertEquals(
+		generatedConst(output, "Create"),
+		`export const Create = Schema.Struct({
+    title: Fields.title,
+    body: Fields.body,
+    status: Schema.optional(Fields.status)
+  });`,
+	);
+	assertEquals(generatedConst(output, "Insert"), "export const Insert = Create;");
+});
+
+Deno.test("Create schema applies DEFAULT and VALUE to nested fields", async () => {
+	const output = generateEffectSchemas(parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD profile ON user TYPE object;
+DEFINE FIELD profile.name ON user TYPE string;
+DEFINE FIELD profile.is_bot ON user TYPE bool DEFAULT false;
+DEFINE FIELD profile.created ON user TYPE datetime VALUE time::now();
+DEFINE FIELD address ON user TYPE object;
+DEFINE FIELD address.city ON user TYPE string;
+`));
+
+	assertEquals(
+		generatedConst(output, "Create"),
+		`export const Create = Schema.Struct({
+    profile: Schema.Struct({
+    name: Schema.String,
+    is_bot: Schema.optional(Schema.Boolean.annotations({ default: false }))
+  }),
+    address: Fields.address
+  });`,
+	);
+
+	const { User } = await importGenerated<{ User: EffectNamespace }>(output);
+	assertEquals(
+		Schema.decodeUnknownSync(User.Create)({ profile: { name: "a" }, address: { city: "b" } }),
+		{ profile: { name: "a" }, address: { city: "b" } },
+	);
+});
+
+Deno.test("Create schema keeps an explicitly defined id", () => {
+	const output = generateEffectSchemas(parseSurQL(`
+DEFINE TABLE tag SCHEMAFULL;
+DEFINE FIELD id ON tag TYPE string;
+DEFINE FIELD name ON tag TYPE string;
+`));
+
+	assertEquals(
+		generatedConst(output, "Create"),
+		`export const Create = Schema.Struct({
+    id: Fields.id,
+    name: Fields.name
+  });`,
+	);
+});
+
+Deno.test("Merge schema makes writable fields optional down through nested objects", () => {
+	const output = generateEffectSchemas(parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE string;
+DEFINE FIELD joined ON user TYPE datetime READONLY;
+DEFINE FIELD address ON user TYPE object;
+DEFINE FIELD address.city ON user TYPE string;
+DEFINE FIELD address.code ON user TYPE string VALUE string::uppercase($value);
+`));
+
+	assertEquals(
+		generatedConst(output, "Merge"),
+		`export const Merge = Schema.Struct({
+    name: Schema.optional(Schema.String),
+    address: Schema.optional(Schema.Struct({
+    city: Schema.optional(Schema.String)
+  }))
+  });`,
+	);
+	assertEquals(generatedConst(output, "Content"), "export const Content = Create;");
+	assertEquals(output.includes("...Merge.fields,"), true);
+	assertEquals(output.includes("Object.fromEntries"), false);
+});
+
+Deno.test("Patch schema lists operations for writable field paths", () => {
+	const output = generateEffectSchemas(parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE string;
+DEFINE FIELD bio ON user TYPE option<string>;
+DEFINE FIELD slug ON user TYPE string VALUE string::slug(name);
+`));
+
+	assertEquals(
+		output.includes(`export const Patch = Schema.Array(Schema.Union(
+    Schema.Struct({ op: Schema.Literal("add", "replace", "test"), path: Schema.Literal("/name"), value: Schema.String }),
+    Schema.Struct({ op: Schema.Literal("add", "replace", "test"), path: Schema.Literal("/bio"), value: Schema.String }),
+    Schema.Struct({ op: Schema.Literal("remove"), path: Schema.Literal("/bio") }),
+  ));`),
+		true,
+	);
+});
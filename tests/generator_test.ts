@@ -0,0 +1,90 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import { type Config, DEFAULT_CONFIG } from "../lib/config.ts";
+import { type Generator, isUpToDate, runGenerators, schemaGenerator } from "../lib/generator.ts";
+import { parseSurQL } from "../lib/schema.ts";
+
+const model = {
+	tables: parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE string;
+`),
+	functions: [],
+};
+
+const docs: Generator = {
+	name: "docs",
+	generate: ({ tables }) => [{
+		path: "docs/tables.md",
+		content: tables.map((table) => `- ${table.name}`).join("\n"),
+	}],
+};
+
+function withGenerators(generators: Generator[]): Config {
+	return { ...(DEFAULT_CONFIG as Config), generators };
+}
+
+Deno.test("Configured generators run after the built-in output", async () => {
+	const files = await runGenerators(
+		withGenerators([
+			schemaGenerator({ schemaSystem: "zod", filename: "schema.zod" }),
+			docs,
+		]),
+		model,
+		"generated/schema.ts",
+	);
+
+	assertEquals(files.map((file) => file.path), [
+		"generated/schema.ts",
+		"generated/schema.zod.ts",
+		"generated/docs/tables.md",
+	]);
+	assertStringIncludes(files[0].content, "import { Schema } from");
+	assertStringIncludes(files[1].content, 'import { z } from "zod";');
+	assertEquals(files[2].content, "- user");
+});
+
+Deno.test("Generators may not write the same file twice", async () => {
+	await assertRejects(
+		() =>
+			runGenerators(
+				withGenerators([schemaGenerator({ schemaSystem: "zod" })]),
+				model,
+				"generated/schema.ts",
+			),
+		Error,
+		"Generator zod writes generated/schema.ts, which the built-in output also writes",
+	);
+});
+
+Deno.test("A failing generator is named in the error", async () => {
+	const failing: Generator = {
+		name: "broken",
+		generate: () => Promise.reject(new Error("no template")),
+	};
+
+	await assertRejects(
+		() => runGenerators(withGenerators([failing]), model, "generated/schema.ts"),
+		Error,
+		"Generator broken failed: no template",
+	);
+});
+
+Deno.test("The hash header makes regenerated output identical", async () => {
+	const config = withGenerators([]);
+	config.output = { ...config.output, header: "hash" };
+	const [first] = await runGenerators(config, model, "generated/schema.ts");
+	const [second] = await runGenerators(config, model, "generated/schema.ts");
+
+	assertEquals(first.content, second.content);
+	assertEquals(first.content.includes("Date:"), false);
+	assertStringIncludes(first.content, " * Hash: sha256-");
+	assertEquals(/[ \t]$/m.test(first.content), false);
+});
+
+Deno.test("Output only differing in its timestamp is up to date", async () => {
+	const [file] = await runGenerators(withGenerators([]), model, "generated/schema.ts");
+	const regenerated = file.content.replace(/Date: .*/, "Date: 2000-01-01T00:00:00.000Z");
+
+	assertEquals(isUpToDate(regenerated, file.content), true);
+	assertEquals(isUpToDate(`${regenerated}// edited\n`, file.content), false);
+});
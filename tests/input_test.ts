@@ -0,0 +1,36 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import { resolveInputFiles } from "../lib/input.ts";
+
+Deno.test("resolveInputFiles expands files, directories and globs", async () => {
+	const cwd = Deno.cwd();
+	const dir = await Deno.makeTempDir();
+	try {
+		await Deno.mkdir(join(dir, "billing"));
+		for (const file of ["users.surql", "billing/invoices.surql", "notes.md"]) {
+			await Deno.writeTextFile(join(dir, file), "");
+		}
+		Deno.chdir(dir);
+
+		assertEquals(await resolveInputFiles([dir]), [
+			join("billing", "invoices.surql"),
+			"users.surql",
+		]);
+		assertEquals(await resolveInputFiles([join(dir, "*.surql")]), ["users.surql"]);
+		// Files listed explicitly keep their order and are not repeated
+		assertEquals(
+			await resolveInputFiles(["users.surql", "."]),
+			["users.surql", join("billing", "invoices.surql")],
+		);
+		// The same file given as a path and matched by a glob is read once
+		assertEquals(
+			await resolveInputFiles(["./users.surql", "*.surql", join(dir, "users.surql")]),
+			["users.surql"],
+		);
+		await assertRejects(() => resolveInputFiles(["missing.surql"]));
+		await assertRejects(() => resolveInputFiles(["*.sql"]));
+	} finally {
+		Deno.chdir(cwd);
+		await Deno.remove(dir, { recursive: true });
+	}
+});
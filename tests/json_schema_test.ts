@@ -0,0 +1,80 @@
+import { assertEquals } from "@std/assert";
+import {
+	generateJsonSchemaBundle,
+	generateJsonSchemaDocuments,
+	type JsonSchema,
+} from "../lib/json-schema.ts";
+import { parseSurQL } from "../lib/schema.ts";
+
+const schema = `
+DEFINE TABLE user SCHEMAFULL COMMENT "A registered user";
+DEFINE FIELD email ON user TYPE string ASSERT string::is::email($value) COMMENT "Login email";
+DEFINE FIELD role ON user TYPE string DEFAULT "member" ASSERT $value INSIDE ["member", "admin"];
+DEFINE FIELD age ON user TYPE option<int> ASSERT $value = NONE OR $value >= 18;
+DEFINE FIELD status ON user TYPE "active" | "banned";
+DEFINE FIELD created_at ON user TYPE datetime DEFAULT time::now() READONLY;
+DEFINE TABLE post SCHEMAFULL;
+DEFINE FIELD author ON post TYPE record<user>;
+DEFINE FIELD tags ON post TYPE set<string, 5>;
+DEFINE FIELD title ON post TYPE string ASSERT string::len($value) > 0 AND string::starts_with($value, "#");
+DEFINE FIELD address ON post TYPE object;
+DEFINE FIELD address.city ON post TYPE string;
+`;
+
+/**
+ * The property schemas of a generated object schema, by name
+ */
+function propertiesOf(schema: JsonSchema): Record<string, JsonSchema> {
+	return schema.properties as Record<string, JsonSchema>;
+}
+
+Deno.test("JSON Schema bundle puts every table and record id under $defs", () => {
+	const bundle = generateJsonSchemaBundle(parseSurQL(schema));
+	const $defs = bundle.$defs as Record<string, JsonSchema>;
+
+	assertEquals(bundle.$schema, "https://json-schema.org/draft/2020-12/schema");
+	assertEquals(Object.keys($defs), ["User", "UserId", "Post", "PostId"]);
+	assertEquals($defs.UserId, { type: "string", pattern: "^user:.+$" });
+	assertEquals($defs.User.description, "A registered user");
+	assertEquals($defs.User.required, ["id", "email", "role", "status", "created_at"]);
+	assertEquals(propertiesOf($defs.User), {
+		id: { $ref: "#/$defs/UserId" },
+		email: {
+			type: "string",
+			pattern: "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$",
+			description: "Login email",
+		},
+		role: { type: "string", enum: ["member", "admin"], default: "member" },
+		age: { type: "integer", minimum: 18 },
+		status: { enum: ["active", "banned"] },
+		created_at: { type: "string", format: "date-time", readOnly: true },
+	});
+	assertEquals(propertiesOf($defs.Post).author, { $ref: "#/$defs/UserId" });
+	assertEquals(propertiesOf($defs.Post).tags, {
+		type: "array",
+		items: { type: "string" },
+		uniqueItems: true,
+		maxItems: 5,
+	});
+	assertEquals(propertiesOf($defs.Post).title, {
+		type: "string",
+		minLength: 1,
+		$comment: 'ASSERT string::len($value) > 0 AND string::starts_with($value, "#")',
+	});
+	assertEquals(propertiesOf($defs.Post).address, {
+		type: "object",
+		properties: { city: { type: "string" } },
+		required: ["city"],
+	});
+});
+
+Deno.test("JSON Schema documents link records across files", () => {
+	const documents = generateJsonSchemaDocuments(parseSurQL(schema));
+
+	assertEquals(Object.keys(documents), ["user", "post"]);
+	assertEquals(documents.post.$id, "post.schema.json");
+	assertEquals(documents.post.$defs, { id: { type: "string", pattern: "^post:.+$" } });
+	const properties = propertiesOf(documents.post);
+	assertEquals(properties.id, { $ref: "post.schema.json#/$defs/id" });
+	assertEquals(properties.author, { $ref: "user.schema.json#/$defs/id" });
+});
@@ -0,0 +1,56 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { Schema } from "effect";
+import { generateEffectModules, generateEffectSchemas } from "../lib/effect-schema-class.ts";
+import { parseSurQL } from "../lib/schema.ts";
+import { importGenerated } from "./utils/generated.ts";
+
+const schema = `
+DEFINE TABLE telegram_chat SCHEMAFULL;
+DEFINE FIELD type ON telegram_chat TYPE string ASSERT $value INSIDE ["private", "group", "supergroup", "channel"];
+DEFINE FIELD OVERWRITE kind ON telegram_chat TYPE "private" | "group" | "supergroup" | "channel" COMMENT 'Type of chat';
+DEFINE FIELD status ON telegram_chat TYPE option<"active" | "archived">;
+DEFINE FIELD priority ON telegram_chat TYPE int DEFAULT 1 ASSERT $value INSIDE [1, 2, 3];
+DEFINE FIELD settings ON telegram_chat TYPE object;
+DEFINE FIELD settings.theme ON telegram_chat TYPE "dark" | "light";
+`;
+
+Deno.test("Constrained fields get a literal schema, a union type and the allowed values", async () => {
+	const output = generateEffectSchemas(parseSurQL(schema));
+
+	assertStringIncludes(
+		output,
+		'export const typeValues = ["private", "group", "supergroup", "channel"] as const;',
+	);
+	assertStringIncludes(output, "export type TypeValue = (typeof typeValues)[number];");
+	assertStringIncludes(output, "type: Schema.Literal(...typeValues),");
+	assertStringIncludes(
+		output,
+		"kind: Schema.Literal(...kindValues).annotations({ description: 'Type of chat' }),",
+	);
+	assertStringIncludes(output, "status: Schema.optional(Schema.Literal(...statusValues)),");
+	assertStringIncludes(output, "priority: Schema.Literal(...priorityValues).annotations({ default: 1 }),");
+	assertStringIncludes(output, "theme: Schema.Literal(...settingsThemeValues)");
+	assertEquals(output.includes(".includes(value)"), false);
+
+	const { Telegram_chat } = await importGenerated<{
+		Telegram_chat: { Create: Schema.Schema.AnyNoContext; typeValues: readonly string[] };
+	}>(output);
+	const decode = Schema.decodeUnknownSync(Telegram_chat.Create);
+
+	assertEquals(Telegram_chat.typeValues, ["private", "group", "supergroup", "channel"]);
+	assertEquals(
+		decode({ type: "group", kind: "group", priority: 2, settings: { theme: "dark" } }),
+		{ type: "group", kind: "group", priority: 2, settings: { theme: "dark" } },
+	);
+	assertThrows(() => decode({ type: "bot", kind: "group", settings: { theme: "dark" } }));
+	assertThrows(() => decode({ type: "group", kind: "group", priority: 4, settings: { theme: "dark" } }));
+});
+
+Deno.test("Allowed values are exported from per-table modules", () => {
+	const { modules } = generateEffectModules(parseSurQL(schema));
+
+	assertStringIncludes(
+		modules["telegram_chat.ts"],
+		'/** Values allowed in settings.theme */\nexport const settingsThemeValues = ["dark", "light"] as const;',
+	);
+});
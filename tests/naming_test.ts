@@ -0,0 +1,107 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Schema } from "effect";
+import { generateEffectSchemas } from "../lib/effect-schema-class.ts";
+import { formatPropertyName, parseSurQL } from "../lib/schema.ts";
+import { type EffectNamespace, importGenerated } from "./utils/generated.ts";
+
+Deno.test("formatPropertyName converts snake_case to camelCase", () => {
+	assertEquals(formatPropertyName("created_at"), "createdAt");
+	assertEquals(formatPropertyName("telegram_chat_id"), "telegramChatId");
+	assertEquals(formatPropertyName("_internal_id"), "_internalId");
+	assertEquals(formatPropertyName("name"), "name");
+});
+
+Deno.test("Pascal class names and camelCase fields map back to database keys", async () => {
+	const output = generateEffectSchemas(
+		parseSurQL(`
+DEFINE TABLE telegram_message SCHEMAFULL;
+DEFINE FIELD message_text ON telegram_message TYPE string;
+DEFINE FIELD reply_count ON telegram_message TYPE int DEFAULT 0;
+DEFINE FIELD edit_date ON telegram_message TYPE option<string>;
+DEFINE FIELD from_user ON telegram_message TYPE object;
+DEFINE FIELD from_user.first_name ON telegram_message TYPE string;
+`),
+		[],
+		{ naming: { classes: "pascal", fields: "camel" } },
+	);
+	const { TelegramMessage } = await importGenerated<{
+		TelegramMessage: EffectNamespace & { TelegramMessage: { tableName: string } };
+	}>(output);
+
+	const wire = {
+		message_text: "Hello",
+		reply_count: 2,
+		from_user: { first_name: "Ada" },
+	};
+	const create = Schema.decodeUnknownSync(TelegramMessage.Create)(wire);
+	assertEquals(create, {
+		messageText: "Hello",
+		replyCount: 2,
+		fromUser: { firstName: "Ada" },
+	});
+	assertEquals(Schema.encodeSync(TelegramMessage.Create)(create), wire);
+	assertEquals(
+		Schema.encodeSync(TelegramMessage.Merge)({ editDate: "2024-01-01" }),
+		{ edit_date: "2024-01-01" },
+	);
+	assertEquals(TelegramMessage.TelegramMessage.tableName, "telegram_message");
+});
+
+Deno.test("camelCase naming maps object literal and array element keys", async () => {
+	const output = generateEffectSchemas(
+		parseSurQL(`
+DEFINE TABLE order SCHEMAFULL;
+DEFINE FIELD ship_to ON order TYPE { street_name: string, post_code: option<string> };
+DEFINE FIELD line_items ON order TYPE array<object>;
+DEFINE FIELD line_items[*].unit_price ON order TYPE float;
+`),
+		[],
+		{ naming: { fields: "camel" } },
+	);
+	const { Order } = await importGenerated<{ Order: EffectNamespace }>(output);
+
+	const wire = {
+		ship_to: { street_name: "Main St", post_code: "12345" },
+		line_items: [{ unit_price: 9.5 }],
+	};
+	const create = Schema.decodeUnknownSync(Order.Create)(wire);
+	assertEquals(create, {
+		shipTo: { streetName: "Main St", postCode: "12345" },
+		lineItems: [{ unitPrice: 9.5 }],
+	});
+	assertEquals(Schema.encodeSync(Order.Create)(create), wire);
+	assertEquals(
+		Schema.encodeSync(Order.Merge)({ shipTo: { postCode: "54321" } }),
+		{ ship_to: { post_code: "54321" } },
+	);
+});
+
+Deno.test("camelCase fields that collide are rejected", () => {
+	assertThrows(
+		() =>
+			generateEffectSchemas(
+				parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD created_at ON user TYPE datetime;
+DEFINE FIELD createdAt ON user TYPE datetime;
+`),
+				[],
+				{ naming: { fields: "camel" } },
+			),
+		Error,
+		"Fields created_at and createdAt of table user would both be named createdAt",
+	);
+	assertThrows(
+		() =>
+			generateEffectSchemas(
+				parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD address ON user TYPE { zip_code: string, zipCode: string };
+`),
+				[],
+				{ naming: { fields: "camel" } },
+			),
+		Error,
+		"Fields zip_code and zipCode of table user would both be named zipCode",
+	);
+});
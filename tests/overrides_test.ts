@@ -0,0 +1,51 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { Schema } from "effect";
+import { generateEffectSchemas } from "../lib/effect-schema-class.ts";
+import { parseSurQL } from "../lib/schema.ts";
+import { type EffectNamespace, importGenerated } from "./utils/generated.ts";
+
+const schema = `
+DEFINE TABLE product SCHEMAFULL;
+DEFINE FIELD price ON product TYPE decimal ASSERT $value > 0;
+DEFINE FIELD cost ON product TYPE option<decimal>;
+DEFINE FIELD settings ON product TYPE string;
+DEFINE FIELD dimensions ON product TYPE object;
+DEFINE FIELD dimensions.width ON product TYPE decimal;
+DEFINE TABLE store SCHEMAFULL;
+DEFINE FIELD settings ON store TYPE string;
+`;
+
+const overrides = [
+	{ type: "decimal", schema: "Price", import: 'import { Price } from "./price.ts";' },
+	{
+		field: "product.settings",
+		schema: "Schema.parseJson(Schema.Struct({ theme: Schema.String }))",
+	},
+];
+
+Deno.test("Overrides replace the generated schema of matching fields", () => {
+	const output = generateEffectSchemas(parseSurQL(schema), [], { overrides });
+
+	assertEquals(output.split('import { Price } from "./price.ts";').length, 2);
+	assertStringIncludes(output, "price: Price.annotations({ surrealAssert: '$value > 0' })");
+	assertStringIncludes(output, "cost: Schema.optional(Price)");
+	assertStringIncludes(output, "width: Price");
+	assertStringIncludes(
+		output,
+		"settings: Schema.parseJson(Schema.Struct({ theme: Schema.String }))",
+	);
+	assertStringIncludes(output, "settings: Schema.String");
+});
+
+Deno.test("Field patterns take precedence over type overrides", async () => {
+	const output = generateEffectSchemas(parseSurQL(schema), [], {
+		overrides: [
+			{ type: "string", schema: "Schema.NonEmptyString" },
+			{ field: "*.settings", schema: "Schema.parseJson(Schema.Struct({ theme: Schema.String }))" },
+		],
+	});
+	const { Store } = await importGenerated<{ Store: EffectNamespace }>(output);
+
+	const store = Schema.decodeUnknownSync(Store.Create)({ settings: '{"theme":"dark"}' });
+	assertEquals(store, { settings: { theme: "dark" } });
+});
@@ -0,0 +1,380 @@
+import { assertEquals } from "@std/assert";
+import { formatSurrealType, parseStatements, tokenize } from "../lib/parser/index.ts";
+import { generateEffectSchemas } from "../lib/effect-schema-class.ts";
+import { parseSurQL, parseSurQLFunctions } from "../lib/schema.ts";
+
+Deno.test("tokenize tracks line and column positions", () => {
+	const { tokens, errors } = tokenize("DEFINE TABLE\n  user;");
+
+	assertEquals(errors, []);
+	assertEquals(
+		tokens.map((token) => [token.text, token.span.start.line, token.span.start.column]),
+		[
+			["DEFINE", 1, 1],
+			["TABLE", 1, 8],
+			["user", 2, 3],
+			[";", 2, 7],
+			["", 2, 8],
+		],
+	);
+});
+
+Deno.test("tokenize keeps comment markers inside strings", () => {
+	const { tokens, comments } = tokenize(
+		`DEFINE FIELD a ON t DEFAULT "x; -- y // z"; // trailing`,
+	);
+
+	assertEquals(tokens.find((token) => token.kind === "string")?.value, "x; -- y // z");
+	assertEquals(comments.map((comment) => comment.text), ["trailing"]);
+});
+
+Deno.test("parseStatements splits on top-level semicolons only", () => {
+	const { statements, errors } = parseStatements(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE string
+	DEFAULT "a;b"
+	ASSERT string::len($value) > 0;
+DEFINE EVENT user_created ON user WHEN $event = "CREATE" THEN {
+	CREATE log SET message = "created";
+};
+`);
+
+	assertEquals(errors, []);
+	assertEquals(statements.map((statement) => statement.kind), [
+		"DefineTable",
+		"DefineField",
+		"Other",
+	]);
+
+	const field = statements[1];
+	if (field.kind !== "DefineField") throw new Error("Expected a field");
+	assertEquals(field.type, "string");
+	assertEquals(field.default?.text, '"a;b"');
+	assertEquals(field.assert?.text, "string::len($value) > 0");
+});
+
+Deno.test("parseStatements reads DEFINE modifiers and clauses", () => {
+	const { statements } = parseStatements(`
+DEFINE TABLE OVERWRITE post SCHEMALESS COMMENT 'Blog posts';
+DEFINE FIELD IF NOT EXISTS tags ON TABLE post FLEXIBLE TYPE option<array<string>> DEFAULT ALWAYS [] READONLY;
+`);
+
+	const [table, field] = statements;
+	if (table.kind !== "DefineTable" || field.kind !== "DefineField") {
+		throw new Error("Unexpected statement kinds");
+	}
+	assertEquals(table.overwrite, true);
+	assertEquals(table.schemaMode, "schemaless");
+	assertEquals(table.comment, "Blog posts");
+	assertEquals(field.ifNotExists, true);
+	assertEquals(field.table, "post");
+	assertEquals(field.type, "option<array<string>>");
+	assertEquals(field.flexible, true);
+	assertEquals(field.defaultAlways, true);
+	assertEquals(field.readonly, true);
+});
+
+Deno.test("parseSurQL handles multi-line definitions and all comment styles", () => {
+	const tables = parseSurQL(`
+/* Registered users */
+DEFINE TABLE user SCHEMAFULL;
+
+// Display name
+DEFINE FIELD name ON user
+	TYPE string
+	ASSERT $value != NONE;
+
+# Contact address
+DEFINE FIELD email ON user TYPE option<string>;
+DEFINE FIELD age ON user TYPE int COMMENT "Age in years";
+`);
+
+	assertEquals(tables.length, 1);
+	assertEquals(tables[0].description, "Registered users");
+	assertEquals(
+		tables[0].fields.map((field) => [field.name, field.type, field.optional, field.description]),
+		[
+			["name", "string", false, "Display name"],
+			["email", "string", true, "Contact address"],
+			["age", "int", false, "Age in years"],
+		],
+	);
+});
+
+Deno.test("parseSurQL accepts fields defined before their table", () => {
+	const tables = parseSurQL(`
+DEFINE FIELD title ON post TYPE string;
+DEFINE TABLE post SCHEMAFULL COMMENT "Blog posts";
+`);
+
+	assertEquals(tables.length, 1);
+	assertEquals(tables[0].name, "post");
+	assertEquals(tables[0].description, "Blog posts");
+	assertEquals(tables[0].fields.map((field) => field.name), ["title"]);
+});
+
+Deno.test("parseSurQL collects DEFINE INDEX statements per table", () => {
+	const tables = parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD email ON user TYPE string;
+DEFINE INDEX email_idx ON TABLE user COLUMNS email UNIQUE;
+DEFINE INDEX name_search ON user FIELDS name SEARCH ANALYZER ascii BM25 HIGHLIGHTS;
+DEFINE INDEX embedding_idx ON user FIELDS embedding HNSW DIMENSION 384 DIST COSINE EFC 150 M 12;
+DEFINE INDEX user_count ON user COUNT COMMENT "Number of users";
+`);
+
+	assertEquals(tables[0].indexes, [
+		{ name: "email_idx", columns: ["email"], unique: true, kind: "standard" },
+		{
+			name: "name_search",
+			columns: ["name"],
+			unique: false,
+			kind: "search",
+			analyzer: "ascii",
+		},
+		{
+			name: "embedding_idx",
+			columns: ["embedding"],
+			unique: false,
+			kind: "hnsw",
+			dimension: 384,
+			distance: "cosine",
+		},
+		{
+			name: "user_count",
+			columns: [],
+			unique: false,
+			kind: "count",
+			description: "Number of users",
+		},
+	]);
+});
+
+Deno.test("parseSurQL captures TYPE RELATION endpoints", () => {
+	const tables = parseSurQL(`
+DEFINE TABLE likes TYPE RELATION IN user OUT post | comment ENFORCED SCHEMAFULL;
+DEFINE TABLE follows TYPE RELATION FROM user TO user;
+DEFINE TABLE post TYPE NORMAL;
+`);
+
+	assertEquals(tables.map((table) => [table.name, table.tableType, table.relation]), [
+		["likes", "relation", { in: ["user"], out: ["post", "comment"], enforced: true }],
+		["follows", "relation", { in: ["user"], out: ["user"], enforced: false }],
+		["post", "normal", undefined],
+	]);
+});
+
+Deno.test("parseSurQL models table and field PERMISSIONS", () => {
+	const tables = parseSurQL(`
+DEFINE TABLE post SCHEMAFULL
+	PERMISSIONS
+		FOR select WHERE published = true OR user = $auth.id
+		FOR create, update WHERE user = $auth.id;
+DEFINE FIELD email ON post TYPE string PERMISSIONS FOR select WHERE $auth.admin = true;
+DEFINE FIELD secret ON post TYPE string PERMISSIONS NONE;
+DEFINE TABLE user PERMISSIONS FOR select FULL, FOR create, update, delete NONE;
+`);
+
+	assertEquals(tables[0].permissions, {
+		select: "published = true OR user = $auth.id",
+		create: "user = $auth.id",
+		update: "user = $auth.id",
+		delete: false,
+	});
+	assertEquals(tables[0].fields.map((field) => field.permissions), [
+		{ select: "$auth.admin = true", create: true, update: true, delete: true },
+		{ select: false, create: false, update: false, delete: false },
+	]);
+	assertEquals(tables[1].permissions, {
+		select: true,
+		create: false,
+		update: false,
+		delete: false,
+	});
+
+	const output = generateEffectSchemas(tables);
+	assertEquals(
+		output.includes(
+			'static readonly permissions = { select: true, create: false, update: false, delete: false } as const;',
+		),
+		true,
+	);
+	assertEquals(
+		output.includes(
+			'"email": { select: "$auth.admin = true", create: true, update: true, delete: true },',
+		),
+		true,
+	);
+});
+
+Deno.test("parseSurQLFunctions reads DEFINE FUNCTION signatures", () => {
+	const functions = parseSurQLFunctions(`
+-- Adds two numbers
+DEFINE FUNCTION fn::math::add($a: array<int, 5>, $b: option<int>) -> int {
+	RETURN math::sum($a) + ($b ?? 0);
+} PERMISSIONS FULL;
+DEFINE FUNCTION fn::sentence_to_vector($sentence: string) {
+	RETURN [];
+};
+`);
+
+	assertEquals(functions, [
+		{
+			name: "fn::math::add",
+			description: "Adds two numbers",
+			params: [
+				{
+					name: "a",
+					type: { kind: "array", element: { kind: "scalar", name: "int" }, maxLength: 5 },
+				},
+				{ name: "b", type: { kind: "option", inner: { kind: "scalar", name: "int" } } },
+			],
+			returns: { kind: "scalar", name: "int" },
+		},
+		{
+			name: "fn::sentence_to_vector",
+			params: [{ name: "sentence", type: { kind: "scalar", name: "string" } }],
+		},
+	]);
+
+	const output = generateEffectSchemas([], functions);
+	assertEquals(
+		output.includes(`  export const math_add = surrealFunction(
+    "fn::math::add",
+    {
+      a: Schema.Array(Schema.Number.pipe(Schema.int())).pipe(Schema.maxItems(5)),
+      b: Schema.optional(Schema.Number.pipe(Schema.int())),
+    },
+    Schema.Number.pipe(Schema.int()),
+  );`),
+		true,
+	);
+	assertEquals(output.includes("export const sentence_to_vector = surrealFunction("), true);
+});
+
+Deno.test("parseStatements reads REMOVE and ALTER TABLE statements", () => {
+	const { statements, errors } = parseStatements(`
+REMOVE FIELD IF EXISTS address.city ON TABLE user;
+REMOVE INDEX email_idx ON user;
+REMOVE FUNCTION fn::greet;
+ALTER TABLE IF EXISTS user SCHEMALESS COMMENT "Users";
+`);
+
+	assertEquals(errors, []);
+	assertEquals(
+		statements.map((statement) =>
+			statement.kind === "Remove"
+				? [statement.target, statement.name, statement.table, statement.ifExists]
+				: [statement.kind]
+		),
+		[
+			["field", "address.city", "user", true],
+			["index", "email_idx", "user", false],
+			["function", "fn::greet", undefined, false],
+			["AlterTable"],
+		],
+	);
+	const alter = statements[3];
+	if (alter.kind !== "AlterTable") throw new Error("Expected ALTER TABLE");
+	assertEquals([alter.name, alter.ifExists, alter.schemaMode, alter.comment], [
+		"user",
+		true,
+		"schemaless",
+		"Users",
+	]);
+});
+
+Deno.test("parseSurQL applies schema changes in order", () => {
+	const tables = parseSurQL(`
+DEFINE TABLE user SCHEMAFULL COMMENT "Users";
+DEFINE FIELD name ON user TYPE string;
+DEFINE FIELD address ON user TYPE object;
+DEFINE FIELD address.city ON user TYPE string;
+DEFINE FIELD age ON user TYPE int;
+DEFINE INDEX age_idx ON user FIELDS age;
+REMOVE FIELD address ON user;
+REMOVE INDEX age_idx ON user;
+DEFINE FIELD OVERWRITE age ON user TYPE float;
+DEFINE FIELD IF NOT EXISTS name ON user TYPE bool;
+ALTER TABLE user COMMENT "Registered users";
+DEFINE TABLE session;
+REMOVE TABLE session;
+`);
+
+	assertEquals(tables.length, 1);
+	assertEquals(tables[0].description, "Registered users");
+	assertEquals(tables[0].indexes, []);
+	assertEquals(tables[0].fields.map((field) => [field.name, field.type]), [
+		["name", "string"],
+		["age", "float"],
+	]);
+});
+
+Deno.test("parseSurQL separates DEFAULT, VALUE, READONLY and computed fields", () => {
+	const [post] = parseSurQL(`
+DEFINE TABLE post SCHEMAFULL;
+DEFINE FIELD title ON post TYPE string DEFAULT "Untitled";
+DEFINE FIELD slug ON post TYPE string VALUE string::lowercase($value);
+DEFINE FIELD created_at ON post TYPE datetime DEFAULT time::now() READONLY;
+DEFINE FIELD updated_at ON post TYPE datetime DEFAULT ALWAYS time::now();
+DEFINE FIELD likes ON post VALUE <future> { count(->liked) };
+DEFINE FIELD total ON post COMPUTED count(->liked);
+DEFINE FIELD meta ON post FLEXIBLE TYPE object;
+`);
+
+	assertEquals(
+		post.fields.map((field) => [
+			field.name,
+			field.defaultValue,
+			field.defaultAlways,
+			field.value,
+			field.readonly,
+			field.computed,
+			field.flexible,
+		]),
+		[
+			["title", '"Untitled"', undefined, undefined, undefined, undefined, undefined],
+			["slug", undefined, undefined, "string::lowercase($value)", undefined, undefined, undefined],
+			["created_at", "time::now()", undefined, undefined, true, undefined, undefined],
+			["updated_at", "time::now()", true, undefined, undefined, undefined, undefined],
+			["likes", undefined, undefined, undefined, undefined, "{ count(->liked) }", undefined],
+			["total", undefined, undefined, undefined, undefined, "count(->liked)", undefined],
+			["meta", undefined, undefined, undefined, undefined, undefined, true],
+		],
+	);
+
+	const output = generateEffectSchemas([post]);
+	assertEquals(
+		output.includes(
+			'export const readonlyFields = ["slug", "created_at", "likes", "total"] as const;',
+		),
+		true,
+	);
+	assertEquals(output.includes("surrealValue: 'string::lowercase($value)'"), true);
+	assertEquals(output.includes("surrealDefault: 'time::now()', surrealDefaultAlways: true"), true);
+});
+
+Deno.test("parseSurQL merges array element definitions into the element type", () => {
+	const [order] = parseSurQL(`
+DEFINE TABLE order SCHEMAFULL;
+DEFINE FIELD items[*].price ON order TYPE decimal;
+DEFINE FIELD items ON order TYPE array<object>;
+DEFINE FIELD items[*].sku ON order TYPE option<string>;
+DEFINE FIELD items[*].sizes ON order TYPE array;
+DEFINE FIELD items[*].sizes[*] ON order TYPE int;
+DEFINE FIELD tags ON order TYPE option<set>;
+DEFINE FIELD tags[*] ON order TYPE string;
+`);
+
+	assertEquals(order.fields.map((field) => field.name), ["items", "tags"]);
+	assertEquals(order.fields.map((field) => formatSurrealType(field.surrealType!)), [
+		"array<{ price: decimal, sku: option<string>, sizes: array<int> }>",
+		"option<set<string>>",
+	]);
+	assertEquals(
+		generateEffectSchemas([order]).includes(
+			"items: Schema.Array(Schema.Struct({ price: surrealDecimal, sku: Schema.optional(Schema.String), sizes: Schema.Array(Schema.Number.pipe(Schema.int())) }))",
+		),
+		true,
+	);
+});
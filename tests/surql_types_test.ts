@@ -0,0 +1,184 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+	formatSurrealType,
+	parseSurrealType,
+	referencedTables,
+	unwrapOption,
+} from "../lib/parser/index.ts";
+import type { SurrealType } from "../lib/parser/types.ts";
+import { parseSurQL, resolveFieldType } from "../lib/schema.ts";
+import { generateEffectSchemas } from "../lib/effect-schema-class.ts";
+
+Deno.test("parseSurrealType keeps nested structure", () => {
+	assertEquals(parseSurrealType("option<array<option<record<user>>>>"), {
+		kind: "option",
+		inner: {
+			kind: "array",
+			element: {
+				kind: "option",
+				inner: { kind: "record", tables: ["user"] },
+			},
+		},
+	});
+});
+
+Deno.test("parseSurrealType handles unions, literals and parameters", () => {
+	assertEquals(parseSurrealType('"draft" | "published" | 1 | true'), {
+		kind: "union",
+		variants: [
+			{ kind: "literal", value: "draft" },
+			{ kind: "literal", value: "published" },
+			{ kind: "literal", value: 1 },
+			{ kind: "literal", value: true },
+		],
+	});
+	assertEquals(parseSurrealType("array<string, 10>"), {
+		kind: "array",
+		element: { kind: "scalar", name: "string" },
+		maxLength: 10,
+	});
+	assertEquals(parseSurrealType("record<user | post>"), {
+		kind: "record",
+		tables: ["user", "post"],
+	});
+	assertEquals(parseSurrealType("geometry<point | polygon>"), {
+		kind: "geometry",
+		subtypes: ["point", "polygon"],
+	});
+	assertEquals(parseSurrealType("set"), {
+		kind: "set",
+		element: { kind: "any" },
+	});
+});
+
+Deno.test("parseSurrealType parses object literal types", () => {
+	const expected: SurrealType = {
+		kind: "object",
+		fields: [
+			{ name: "name", type: { kind: "scalar", name: "string" } },
+			{
+				name: "tags",
+				type: {
+					kind: "option",
+					inner: {
+						kind: "array",
+						element: { kind: "scalar", name: "string" },
+					},
+				},
+			},
+		],
+	};
+
+	assertEquals(
+		parseSurrealType("{ name: string, tags: option<array<string>> }"),
+		expected,
+	);
+	assertEquals(
+		parseSurrealType("option<object> { name: string, tags: option<array<string>> }"),
+		{ kind: "option", inner: expected },
+	);
+});
+
+Deno.test("parseSurrealType rejects invalid types", () => {
+	assertThrows(() => parseSurrealType("option<string"));
+	assertThrows(() => parseSurrealType("strin"));
+	assertThrows(() => parseSurrealType("geometry<circle>"));
+});
+
+Deno.test("formatSurrealType round-trips canonical type text", () => {
+	for (
+		const text of [
+			"option<array<option<record<user>>>>",
+			"record<user | post>",
+			"array<int, 5>",
+			'"a" | "b" | none',
+			"{ a: string, b: option<set<float>> }",
+			"references<comment>",
+		]
+	) {
+		assertEquals(formatSurrealType(parseSurrealType(text)), text);
+	}
+});
+
+Deno.test("unwrapOption and referencedTables inspect the type IR", () => {
+	assertEquals(unwrapOption(parseSurrealType("none | string")), {
+		type: { kind: "scalar", name: "string" },
+		optional: true,
+	});
+	assertEquals(
+		referencedTables(
+			parseSurrealType("option<{ a: record<user>, b: array<record<post | user>> }>"),
+		),
+		["user", "post"],
+	);
+});
+
+Deno.test("resolveFieldType converts legacy field definitions", () => {
+	assertEquals(
+		resolveFieldType({
+			type: "array_record",
+			optional: true,
+			reference: { table: "user", isOption: true },
+		}),
+		{
+			kind: "option",
+			inner: { kind: "array", element: { kind: "record", tables: ["user"] } },
+		},
+	);
+	assertEquals(resolveFieldType({ type: "record<user>", optional: false }), {
+		kind: "record",
+		tables: ["user"],
+	});
+});
+
+Deno.test("generateEffectSchemas maps nested types recursively", () => {
+	const tables = parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD friends ON user TYPE option<array<option<record<user>>>>;
+DEFINE FIELD status ON user TYPE "active" | "banned";
+DEFINE FIELD address ON user TYPE { city: string, zip: option<int> };
+`);
+
+	assertEquals(tables[0].fields[0].type, "array");
+	assertEquals(
+		tables[0].fields[0].surrealType,
+		parseSurrealType("option<array<option<record<user>>>>"),
+	);
+
+	const output = generateEffectSchemas(tables);
+	const fieldLine = (name: string) =>
+		output.split("\n").find((line) => line.trim().startsWith(`${name}:`))?.trim();
+
+	assertEquals(
+		fieldLine("friends"),
+		'friends: Schema.optional(Schema.Array(Schema.UndefinedOr(recordId("user")))),',
+	);
+	assertEquals(
+		fieldLine("status"),
+		"status: Schema.Literal(...statusValues),",
+	);
+	assertEquals(
+		fieldLine("address"),
+		"address: Schema.Struct({ city: Schema.String, zip: Schema.optional(Schema.Number.pipe(Schema.int())) })",
+	);
+});
+
+Deno.test("generateEffectSchemas types the endpoints of relation tables", () => {
+	const output = generateEffectSchemas(parseSurQL(`
+DEFINE TABLE likes TYPE RELATION IN user OUT post | comment;
+DEFINE FIELD created_at ON likes TYPE datetime;
+`));
+	const lines = output.split("\n").map((line) => line.trim());
+
+	assertEquals(lines.includes('in: recordId("user"),'), true);
+	assertEquals(
+		lines.includes('out: Schema.Union(recordId("post"), recordId("comment")),'),
+		true,
+	);
+	assertEquals(
+		lines.includes(
+			'static readonly relation = { in: ["user"], out: ["post","comment"], enforced: false } as const;',
+		),
+		true,
+	);
+});
@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import { FormatRegistry, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { generateTypeBoxSchemas } from "../lib/typebox-schema.ts";
+import { parseSurQL, validateReferences } from "../lib/schema.ts";
+import { importGenerated } from "./utils/generated.ts";
+
+if (!FormatRegistry.Has("date-time")) {
+	FormatRegistry.Set("date-time", (value) => !Number.isNaN(Date.parse(value)));
+}
+
+/**
+ * Generate TypeBox schemas for a schema and import the generated module
+ */
+function generate(content: string): Promise<Record<string, TSchema>> {
+	return importGenerated(generateTypeBoxSchemas(validateReferences(parseSurQL(content))));
+}
+
+const schema = `
+DEFINE TABLE post SCHEMAFULL;
+DEFINE FIELD title ON post TYPE string ASSERT string::len($value) > 0;
+DEFINE FIELD body ON post TYPE option<string>;
+DEFINE FIELD status ON post TYPE string DEFAULT "draft";
+DEFINE FIELD slug ON post TYPE string VALUE string::lowercase(title);
+DEFINE FIELD views ON post TYPE int DEFAULT 0 ASSERT $value >= 0;
+DEFINE FIELD author ON post TYPE record<user>;
+DEFINE FIELD created_at ON post TYPE datetime DEFAULT time::now() READONLY;
+DEFINE FIELD address ON post TYPE object;
+DEFINE FIELD address.city ON post TYPE string;
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE string;
+`;
+
+Deno.test("TypeBox model checks records as they appear in JSON", async () => {
+	const { Post } = await generate(schema);
+	const record = {
+		id: "post:1",
+		title: "Hello",
+		status: "draft",
+		slug: "hello",
+		views: 3,
+		author: "user:ada",
+		created_at: "2024-01-01T00:00:00Z",
+		address: { city: "Oslo" },
+	};
+
+	assertEquals(Value.Check(Post, record), true);
+	assertEquals(Value.Check(Post, { ...record, id: "user:1" }), false);
+	assertEquals(Value.Check(Post, { ...record, author: "post:1" }), false);
+	assertEquals(Value.Check(Post, { ...record, title: "" }), false);
+	assertEquals(Value.Check(Post, { ...record, views: -1 }), false);
+	assertEquals(Value.Check(Post, { ...record, created_at: "yesterday" }), false);
+});
+
+Deno.test("TypeBox Insert and Update leave out database-set fields", async () => {
+	const { PostInsert, PostUpdate } = await generate(schema);
+
+	assertEquals(Object.keys(PostInsert.properties), [
+		"title",
+		"body",
+		"status",
+		"views",
+		"author",
+		"address",
+	]);
+	assertEquals(PostInsert.required, ["title", "author", "address"]);
+	assertEquals(
+		Value.Check(PostInsert, { title: "Hello", author: "user:ada", address: { city: "Oslo" } }),
+		true,
+	);
+	assertEquals(Object.keys(PostUpdate.properties), Object.keys(PostInsert.properties));
+	assertEquals(PostUpdate.required, undefined);
+	assertEquals(Value.Check(PostUpdate, { address: {} }), true);
+	assertEquals(Value.Check(PostUpdate, { address: { city: 1 } }), false);
+});
+
+Deno.test("TypeBox Insert applies DEFAULT and VALUE to nested fields", async () => {
+	const { UserInsert } = await generate(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD profile ON user TYPE object;
+DEFINE FIELD profile.name ON user TYPE string;
+DEFINE FIELD profile.is_bot ON user TYPE bool DEFAULT false;
+DEFINE FIELD profile.created ON user TYPE datetime VALUE time::now();
+`);
+
+	assertEquals(Object.keys(UserInsert.properties.profile.properties), ["name", "is_bot"]);
+	assertEquals(Value.Check(UserInsert, { profile: { name: "a" } }), true);
+});
+
+Deno.test("TypeBox Select and Filter cover every field", async () => {
+	const { PostSelect, PostFilter } = await generate(schema);
+
+	assertEquals(Value.Check(PostSelect, { id: true, title: true, created_at: false }), true);
+	assertEquals(Value.Check(PostSelect, { title: "yes" }), false);
+	assertEquals(
+		Value.Check(PostFilter, {
+			title: { startsWith: "He" },
+			views: { gte: 1, lt: 10 },
+			author: "user:ada",
+			created_at: { gt: "2024-01-01T00:00:00Z" },
+		}),
+		true,
+	);
+	assertEquals(Value.Check(PostFilter, { status: "draft" }), true);
+	assertEquals(Value.Check(PostFilter, { views: { gt: "1" } }), false);
+	assertEquals("address" in PostFilter.properties, false);
+});
@@ -0,0 +1,70 @@
+import { assertEquals } from "@std/assert";
+import { generateTypeScriptTypes } from "../lib/typescript-types.ts";
+import { parseSurQL } from "../lib/schema.ts";
+
+/**
+ * Extract the source of `export interface <name> { ... }` from generated output
+ */
+function generatedInterface(output: string, name: string): string | undefined {
+	const start = output.indexOf(`export interface ${name} {`);
+	if (start === -1) return undefined;
+	return output.slice(start, output.indexOf("\n}\n", start) + 2);
+}
+
+Deno.test("Types backend emits interfaces without imports", () => {
+	const output = generateTypeScriptTypes(parseSurQL(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD name ON user TYPE string COMMENT "Display name";
+DEFINE FIELD bio ON user TYPE option<string>;
+DEFINE FIELD joined ON user TYPE datetime;
+DEFINE FIELD address ON user FLEXIBLE TYPE object;
+DEFINE FIELD address.city ON user TYPE string;
+DEFINE FIELD tags ON user TYPE array<string>;
+DEFINE FIELD best_friend ON user TYPE option<record<user>>;
+`));
+
+	assertEquals(/^\s*import\b/m.test(output), false);
+	assertEquals(
+		output.includes("export type RecordId<Table extends string = string> = `${Table}:${string}`;"),
+		true,
+	);
+	assertEquals(
+		generatedInterface(output, "User"),
+		`export interface User {
+  id: RecordId<"user">;
+  /**
+   * Display name
+   */
+  name: string;
+  bio?: string;
+  joined: string;
+  address: {
+    city: string;
+    [key: string]: unknown;
+  };
+  tags: Array<string>;
+  best_friend?: RecordId<"user">;
+}`,
+	);
+});
+
+Deno.test("Types backend types relation endpoints", () => {
+	const output = generateTypeScriptTypes(parseSurQL(`
+DEFINE TABLE likes TYPE RELATION IN user OUT post | comment COMMENT "A like";
+DEFINE FIELD at ON likes TYPE datetime;
+`));
+
+	assertEquals(
+		output.includes(`/**
+ * A like
+ * Relation from user to post | comment
+ */
+export interface Likes {
+  id: RecordId<"likes">;
+  in: RecordId<"user">;
+  out: RecordId<"post" | "comment">;
+  at: string;
+}`),
+		true,
+	);
+});
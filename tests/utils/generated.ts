@@ -0,0 +1,36 @@
+import { join } from "@std/path";
+import type { Schema } from "effect";
+
+/**
+ * The exports of a generated module, only known once it is imported
+ */
+export type GeneratedModule = Record<string, unknown>;
+
+/**
+ * The schemas of a generated Effect table namespace, e.g. `User.Create`
+ */
+export type EffectNamespace = Record<string, Schema.Schema.AnyNoContext>;
+
+/**
+ * Write generated code to a temporary directory and import it
+ *
+ * @param content - The generated module, written as schema.ts
+ * @param modules - Other generated files it imports, by file name
+ * @returns The exports of the module, typed as the caller expects them
+ */
+export async function importGenerated<T = GeneratedModule>(
+	content: string,
+	modules: Record<string, string> = {},
+): Promise<T> {
+	const dir = await Deno.makeTempDir({ prefix: "surql-gen-test-" });
+	try {
+		for (const [name, source] of Object.entries(modules)) {
+			await Deno.writeTextFile(join(dir, name), source);
+		}
+		const path = join(dir, "schema.ts");
+		await Deno.writeTextFile(path, content);
+		return await import(`file://${path}`);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+}
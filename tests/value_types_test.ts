@@ -0,0 +1,89 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { BigDecimal, Duration, Schema } from "effect";
+import {
+	Decimal,
+	Duration as SurrealDuration,
+	GeometryLine,
+	GeometryPoint,
+	Uuid,
+} from "surrealdb";
+import { generateEffectModules, generateEffectSchemas } from "../lib/effect-schema-class.ts";
+import { parseSurQL } from "../lib/schema.ts";
+import { type EffectNamespace, importGenerated } from "./utils/generated.ts";
+
+const schema = `
+DEFINE TABLE product SCHEMAFULL;
+DEFINE FIELD price ON product TYPE decimal ASSERT $value > 0;
+DEFINE FIELD weight ON product TYPE number;
+DEFINE FIELD ttl ON product TYPE duration;
+DEFINE FIELD sku ON product TYPE uuid;
+DEFINE FIELD thumbnail ON product TYPE option<bytes>;
+DEFINE FIELD origin ON product TYPE geometry<point>;
+DEFINE FIELD made_at ON product TYPE datetime;
+`;
+
+Deno.test("SDK value classes decode into JS and Effect types and back", async () => {
+	const { Product } = await importGenerated<{ Product: EffectNamespace }>(
+		generateEffectSchemas(parseSurQL(schema)),
+	);
+	const decode = Schema.decodeUnknownSync(Product.Create);
+
+	const wire = {
+		price: new Decimal("19.99"),
+		weight: new Decimal("0.5"),
+		ttl: new SurrealDuration("1h30m"),
+		sku: new Uuid("0190b2ec-5b2b-7c8e-a1a4-3cc2a6b1f1a0"),
+		thumbnail: new Uint8Array([1, 2, 3]).buffer,
+		origin: new GeometryPoint([13.4, 52.5]),
+		made_at: new Date("2024-01-01T00:00:00Z"),
+	};
+	const product = decode(wire) as {
+		price: BigDecimal.BigDecimal;
+		weight: BigDecimal.BigDecimal;
+		ttl: Duration.Duration;
+		sku: string;
+		thumbnail: Uint8Array;
+		origin: unknown;
+	};
+
+	assertEquals(BigDecimal.format(product.price), "19.99");
+	assertEquals(BigDecimal.format(product.weight), "0.5");
+	assertEquals(Duration.toMinutes(product.ttl), 90);
+	assertEquals(product.sku, "0190b2ec-5b2b-7c8e-a1a4-3cc2a6b1f1a0");
+	assertEquals(product.thumbnail, new Uint8Array([1, 2, 3]));
+	assertEquals(product.origin, { type: "Point", coordinates: [13.4, 52.5] });
+
+	const encode = Schema.encodeSync(Product.Create);
+	const encoded = encode(product) as Record<string, unknown>;
+	assertEquals(encoded.price instanceof Decimal, true);
+	assertEquals(String(encoded.price), "19.99");
+	assertEquals(String(encoded.ttl), "1h30m");
+	assertEquals(encoded.sku instanceof Uuid, true);
+	assertEquals(encoded.origin instanceof GeometryPoint, true);
+
+	const short = encode({ ...product, ttl: Duration.millis(1500) }) as Record<string, unknown>;
+	assertEquals(String(short.ttl), "1s500ms");
+	assertThrows(() => encode({ ...product, ttl: Duration.infinity }));
+
+	assertThrows(() => decode({ ...wire, price: new Decimal("0") }));
+	assertThrows(() =>
+		decode({
+			...wire,
+			origin: new GeometryLine([new GeometryPoint([0, 0]), new GeometryPoint([1, 1])]),
+		})
+	);
+});
+
+Deno.test("Value schemas are only emitted and imported where used", () => {
+	const plain = generateEffectSchemas(parseSurQL("DEFINE TABLE user SCHEMAFULL;"));
+	assertEquals(plain.includes("surrealDecimal"), false);
+	assertStringIncludes(plain, 'import { Schema } from "effect";');
+
+	const { modules } = generateEffectModules(parseSurQL(schema));
+	assertStringIncludes(modules["helpers.ts"], "export const surrealDecimal");
+	assertStringIncludes(modules["product.ts"], 'import { BigDecimal, Schema } from "effect";');
+	assertStringIncludes(
+		modules["product.ts"],
+		'import { recordId, surrealDecimal, surrealDuration, surrealUuid, surrealBytes, surrealGeometry, GeoJsonPoint } from "./helpers.ts";',
+	);
+});
@@ -0,0 +1,144 @@
+import { assertEquals } from "@std/assert";
+import { Either, Schema, type SchemaAST } from "effect";
+import { Decimal, RecordId } from "surrealdb";
+import type { z } from "zod";
+import { generateEffectSchemas } from "../lib/effect-schema-class.ts";
+import { generateZodSchemas } from "../lib/zod-schema.ts";
+import { parseSurQL, validateReferences } from "../lib/schema.ts";
+import { type EffectNamespace, importGenerated } from "./utils/generated.ts";
+
+/**
+ * The schemas of a generated Zod table namespace, e.g. `User.Create`
+ */
+type ZodNamespace = Record<string, z.AnyZodObject>;
+
+/**
+ * Generate both backends for a schema and import the generated modules
+ */
+async function generateBoth(
+	content: string,
+): Promise<{ effect: Record<string, EffectNamespace>; zod: Record<string, ZodNamespace> }> {
+	const tables = validateReferences(parseSurQL(content));
+	return {
+		effect: await importGenerated(generateEffectSchemas(tables)),
+		zod: await importGenerated(generateZodSchemas(tables)),
+	};
+}
+
+/**
+ * Property names and whether each one is optional, sorted by name
+ */
+function effectProperties(schema: Schema.Schema.Any): Array<[string, boolean]> {
+	const ast = schema.ast as SchemaAST.TypeLiteral;
+	return ast.propertySignatures
+		.map((property): [string, boolean] => [String(property.name), property.isOptional])
+		.sort(([a], [b]) => a.localeCompare(b));
+}
+
+function zodProperties(schema: z.AnyZodObject): Array<[string, boolean]> {
+	return Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+		.map(([name, property]): [string, boolean] => [name, property.isOptional()])
+		.sort(([a], [b]) => a.localeCompare(b));
+}
+
+for (const example of ["e-commerce", "social_media", "task_management", "telegram", "user_post"]) {
+	Deno.test(`Effect and Zod schemas agree on examples/${example}.surql`, async () => {
+		const content = await Deno.readTextFile(`examples/${example}.surql`);
+		const { effect, zod } = await generateBoth(content);
+
+		const namespaces = (module: Record<string, Record<string, unknown>>) =>
+			Object.keys(module).filter((name) => module[name]?.Fields).sort();
+		assertEquals(namespaces(zod), namespaces(effect));
+		for (const name of namespaces(effect)) {
+			assertEquals(
+				Object.keys(zod[name].Fields).sort(),
+				Object.keys(effect[name].Fields).sort(),
+				`${name}.Fields`,
+			);
+			for (const variant of ["Create", "Merge"]) {
+				assertEquals(
+					zodProperties(zod[name][variant]),
+					effectProperties(effect[name][variant]),
+					`${name}.${variant}`,
+				);
+			}
+		}
+	});
+}
+
+Deno.test("Effect and Zod decode record ids and check ASSERT constraints alike", async () => {
+	const { effect, zod } = await generateBoth(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD email ON user TYPE string ASSERT string::is::email($value);
+DEFINE FIELD age ON user TYPE option<int> ASSERT $value = NONE OR $value >= 18;
+DEFINE FIELD nickname ON user TYPE string | null;
+`);
+
+	const samples = [
+		{ id: "user:ada", email: "ada@example.com", age: 36, nickname: null },
+		{ id: "user:bob", email: "bob@example.com", nickname: "bobby" },
+		{ id: "user:kid", email: "kid@example.com", age: 12, nickname: null },
+		{ id: "user:bad", email: "not an email", nickname: null },
+		{ id: "post:1", email: "ada@example.com", nickname: null },
+	];
+	const decodeEffect = Schema.decodeUnknownEither(effect.User.User);
+
+	assertEquals(
+		samples.map((sample) => zod.User.User.safeParse(sample).success),
+		samples.map((sample) => Either.isRight(decodeEffect(sample))),
+	);
+	assertEquals(
+		zod.User.User.parse(samples[0]).id,
+		new RecordId("user", "ada"),
+	);
+	assertEquals(
+		samples.map((sample) => zod.User.User.safeParse(sample).success),
+		[true, true, false, false, false],
+	);
+});
+
+Deno.test("Effect and Zod apply DEFAULT and VALUE to nested fields on create", async () => {
+	const { effect, zod } = await generateBoth(`
+DEFINE TABLE user SCHEMAFULL;
+DEFINE FIELD profile ON user TYPE object;
+DEFINE FIELD profile.name ON user TYPE string;
+DEFINE FIELD profile.is_bot ON user TYPE bool DEFAULT false;
+DEFINE FIELD profile.joined ON user TYPE datetime DEFAULT time::now();
+DEFINE FIELD profile.created ON user TYPE datetime VALUE time::now();
+`);
+
+	assertEquals(zod.User.Create.parse({ profile: { name: "a" } }), {
+		profile: { name: "a", is_bot: false },
+	});
+	assertEquals(
+		Schema.decodeUnknownSync(effect.User.Create)({ profile: { name: "a" } }),
+		{ profile: { name: "a" } },
+	);
+	assertEquals((zod.User.Create.shape.profile as z.AnyZodObject).shape.created, undefined);
+});
+
+Deno.test("Effect and Zod accept SDK Decimals for decimal fields", async () => {
+	const { effect, zod } = await generateBoth(`
+DEFINE TABLE product SCHEMAFULL;
+DEFINE FIELD price ON product TYPE decimal ASSERT $value > 0;
+DEFINE FIELD weight ON product TYPE number;
+`);
+
+	const samples = [
+		{ id: "product:a", price: new Decimal("19.99"), weight: 2 },
+		{ id: "product:b", price: new Decimal("19.99"), weight: new Decimal("0.5") },
+		{ id: "product:c", price: new Decimal("-1"), weight: 2 },
+		{ id: "product:d", price: 19.99, weight: 2 },
+		{ id: "product:e", price: "19.99", weight: 2 },
+	];
+	const decodeEffect = Schema.decodeUnknownEither(effect.Product.Product);
+
+	assertEquals(
+		samples.map((sample) => zod.Product.Product.safeParse(sample).success),
+		samples.map((sample) => Either.isRight(decodeEffect(sample))),
+	);
+	assertEquals(
+		samples.map((sample) => zod.Product.Product.safeParse(sample).success),
+		[true, true, false, false, false],
+	);
+});